@@ -1,8 +1,17 @@
-import { PlatformAdapter, FileChange, ReviewStatus } from "../interfaces/PlatformAdapter";
-import { AzDoIterationsResponse, AzDoWebhookPayload } from "../types/azdo";
-import azdo, { postReview, setPrVote } from "../utils/azdoClient";
+import { PlatformAdapter, BotThread, ExistingComment, FileChange, ReviewComment, ReviewStatus } from "../interfaces/PlatformAdapter";
+import { AzDoChange, AzDoIterationsResponse, AzDoWebhookPayload } from "../types/azdo";
+import azdo, { getPrProperties, getPrThreads, postReview, setPrVote, setThreadStatus, updatePrProperties, updateThreadComment } from "../utils/azdoClient";
+import { createUnifiedDiff } from "../utils/diffUtils";
+import { SUMMARY_MARKER } from "../utils/reviewMarkers";
+import { appendSuggestion } from "../utils/suggestions";
 import { env } from "../config/envVariables";
 
+// Pull request properties recording the commit under review, the last reviewed commit and the vote it got
+const REVIEWING_COMMIT_PROPERTY = "TechLeadAnna.ReviewingCommit";
+const LAST_REVIEWED_COMMIT_PROPERTY = "TechLeadAnna.LastReviewedCommit";
+const LAST_VOTE_PROPERTY = "TechLeadAnna.LastVote";
+const POST_CONCURRENCY = 5;
+
 /**
  * Azure DevOps Platform Adapter
  */
@@ -11,6 +20,11 @@ export class AzDoAdapter implements PlatformAdapter {
     private repoId: string;
     private prId: number;
     private reviewerId?: string;
+    private baseCommitId?: string;
+    private headCommitId?: string;
+    private lastReviewedCommit?: string;
+    private isLocked = false;
+    private changesByPath = new Map<string, AzDoChange>();
 
     constructor(private payload: AzDoWebhookPayload) {
         this.project = payload.resource.repository.project.name;
@@ -33,13 +47,49 @@ export class AzDoAdapter implements PlatformAdapter {
         if (!reviewer) return false;
 
         this.reviewerId = reviewer.id;
-        // Process only if not voted yet (vote === 0)
-        return reviewer.vote === 0;
+        this.headCommitId = prRes.data.lastMergeSourceCommit?.commitId;
+
+        const properties = await getPrProperties(this.project, this.repoId, this.prId);
+        if (this.headCommitId && properties[REVIEWING_COMMIT_PROPERTY] === this.headCommitId) {
+            return false; // This commit is being reviewed right now
+        }
+
+        // Process if not voted yet (vote === 0), i.e. the first review or a reviewer reset,
+        // unless the last review voted 0 itself (the approval policy's no_vote)
+        if (reviewer.vote === 0 && properties[LAST_VOTE_PROPERTY] !== "0") return true;
+
+        // Otherwise review again only when commits were pushed after the last review
+        const lastReviewedCommit = properties[LAST_REVIEWED_COMMIT_PROPERTY];
+        if (!lastReviewedCommit || !this.headCommitId || lastReviewedCommit === this.headCommitId) return false;
+
+        this.lastReviewedCommit = lastReviewedCommit;
+        return true;
     }
 
     async lockPR(): Promise<void> {
         if (!this.reviewerId) throw new Error("Reviewer not identified");
-        await setPrVote(this.project, this.repoId, this.prId, this.reviewerId, -5); // Waiting for author
+        if (!this.lastReviewedCommit) {
+            await setPrVote(this.project, this.repoId, this.prId, this.reviewerId, -5); // Waiting for author
+        }
+        if (this.headCommitId) {
+            await updatePrProperties(this.project, this.repoId, this.prId, [
+                { op: "add", path: `/${REVIEWING_COMMIT_PROPERTY}`, value: this.headCommitId }
+            ]);
+            this.isLocked = true;
+        }
+    }
+
+    async unlockPR(): Promise<void> {
+        if (!this.reviewerId) return;
+        if (!this.lastReviewedCommit) {
+            await setPrVote(this.project, this.repoId, this.prId, this.reviewerId, 0); // No vote
+        }
+        if (this.isLocked) {
+            await updatePrProperties(this.project, this.repoId, this.prId, [
+                { op: "remove", path: `/${REVIEWING_COMMIT_PROPERTY}` }
+            ]);
+            this.isLocked = false;
+        }
     }
 
     async getChangedFiles(): Promise<FileChange[]> {
@@ -53,20 +103,44 @@ export class AzDoAdapter implements PlatformAdapter {
         const latestIteration = iterationsRes.data.value.slice(-1)[0];
         const latestIterationId = latestIteration.id;
         const commitId = latestIteration.sourceRefCommit.commitId;
+        // Prefer the merge base so the diff only contains the PR's own changes
+        this.baseCommitId = latestIteration.commonRefCommit?.commitId || latestIteration.targetRefCommit?.commitId;
+
+        // Incremental re-review: compare against the iteration that was last reviewed
+        let compareToParam = "";
+        if (this.lastReviewedCommit) {
+            const reviewedIteration = iterationsRes.data.value.find(i => i.sourceRefCommit.commitId === this.lastReviewedCommit);
+            if (reviewedIteration && reviewedIteration.id !== latestIterationId) {
+                compareToParam = `&$compareTo=${reviewedIteration.id}`;
+                this.baseCommitId = this.lastReviewedCommit;
+            } else {
+                // The last reviewed commit is no longer part of the PR (e.g., force-push), review everything
+                this.lastReviewedCommit = undefined;
+            }
+        }
 
         const changesRes = await azdo.get<any>(
-            `/${encodedProject}/_apis/git/repositories/${this.repoId}/pullRequests/${this.prId}/iterations/${latestIterationId}/changes?api-version=7.1`
+            `/${encodedProject}/_apis/git/repositories/${this.repoId}/pullRequests/${this.prId}/iterations/${latestIterationId}/changes?api-version=7.1${compareToParam}`
         );
 
-        const changes = changesRes.data.changes || changesRes.data.value || changesRes.data.changeEntries || [];
+        const changes: AzDoChange[] = changesRes.data.changes || changesRes.data.value || changesRes.data.changeEntries || [];
+        for (const change of changes) {
+            if (change.item?.path) this.changesByPath.set(change.item.path, change);
+        }
+
+        // Deleted files have no content to review
         return changes
-            .filter((c: any) => !c.item?.isFolder)
+            .filter((c: any) => !c.item?.isFolder && !(c.changeType || "").toLowerCase().includes("delete"))
             .map((c: any) => ({
                 path: c.item.path,
                 commitId: commitId
             }));
     }
 
+    getHeadCommit(): string | undefined {
+        return this.headCommitId;
+    }
+
     async getFileContent(path: string, commitId: string): Promise<string> {
         const encodedProject = encodeURIComponent(this.project);
         const res = await azdo.get<any>(
@@ -85,21 +159,153 @@ export class AzDoAdapter implements PlatformAdapter {
         return res.data.content || "";
     }
 
-    async postComment(path: string, startLine: number | undefined, endLine: number | undefined, comment: string): Promise<void> {
-        await postReview(this.project, this.repoId, this.prId, comment, path, startLine, endLine);
+    async getFileDiff(file: FileChange, headContent?: string): Promise<string> {
+        const change = this.changesByPath.get(file.path);
+        if (!this.baseCommitId || !change) return "";
+
+        const changeType = (change.changeType || "").toLowerCase();
+        if (changeType.includes("delete")) return "";
+
+        // AzDo does not return patches, so compute one from the base and head versions
+        let baseContent = "";
+        if (!changeType.includes("add")) {
+            try {
+                baseContent = await this.getFileContent(change.originalPath || file.path, this.baseCommitId);
+            } catch {
+                baseContent = ""; // File did not exist at the base commit
+            }
+        }
+
+        return createUnifiedDiff(baseContent, headContent ?? await this.getFileContent(file.path, file.commitId));
     }
 
-    async setFinalStatus(status: ReviewStatus): Promise<void> {
+    async getRepoFilePaths(commitId: string): Promise<string[]> {
+        const encodedProject = encodeURIComponent(this.project);
+        const res = await azdo.get<any>(
+            `/${encodedProject}/_apis/git/repositories/${this.repoId}/items`,
+            {
+                params: {
+                    scopePath: "/",
+                    recursionLevel: "Full",
+                    versionDescriptor: {
+                        versionType: "Commit",
+                        version: commitId
+                    }
+                }
+            }
+        );
+
+        const items: { path: string; isFolder?: boolean }[] = res.data.value || [];
+        return items
+            .filter(item => !item.isFolder)
+            .map(item => item.path);
+    }
+
+    getLastReviewedCommit(): string | undefined {
+        return this.lastReviewedCommit;
+    }
+
+    async getOpenBotThreads(): Promise<BotThread[]> {
+        const threads = await getPrThreads(this.project, this.repoId, this.prId);
+        return threads
+            .filter(thread => !thread.isDeleted && thread.status === "active" && thread.threadContext?.filePath)
+            .filter(thread => {
+                // Skip system threads (e.g., vote changes), which are also authored by the reviewer
+                const first = thread.comments?.[0];
+                return first?.commentType === "text" && first.author?.displayName === env.AZDO_REVIEWER_NAME;
+            })
+            .map(thread => ({
+                id: String(thread.id),
+                path: thread.threadContext!.filePath,
+                startLine: thread.threadContext!.rightFileStart?.line,
+                endLine: thread.threadContext!.rightFileEnd?.line,
+                comment: thread.comments[0].content || ""
+            }));
+    }
+
+    async resolveThread(thread: BotThread): Promise<void> {
+        await setThreadStatus(this.project, this.repoId, this.prId, Number(thread.id), 2); // Fixed
+    }
+
+    async getExistingComments(): Promise<ExistingComment[]> {
+        const threads = await getPrThreads(this.project, this.repoId, this.prId);
+        return threads
+            .filter(thread => !thread.isDeleted)
+            .flatMap(thread => (thread.comments || [])
+                .filter(comment => comment.commentType === "text" && comment.content)
+                .map(comment => ({
+                    path: thread.threadContext?.filePath,
+                    startLine: thread.threadContext?.rightFileStart?.line,
+                    endLine: thread.threadContext?.rightFileEnd?.line,
+                    body: comment.content!
+                }))
+            );
+    }
+
+    async postGeneralComment(body: string): Promise<void> {
+        await postReview(this.project, this.repoId, this.prId, body);
+    }
+
+    async submitReview(comments: ReviewComment[], status: ReviewStatus, summary?: string): Promise<void> {
+        // AzDo has no batch API for threads, so create them a few at a time
+        for (let i = 0; i < comments.length; i += POST_CONCURRENCY) {
+            const chunk = comments.slice(i, i + POST_CONCURRENCY);
+            // AzDo renders ```suggestion blocks on a line-anchored thread as a change the author can apply
+            await Promise.all(chunk.map(c =>
+                postReview(this.project, this.repoId, this.prId, appendSuggestion(c.comment, c.suggestion), c.filePath, c.startLine, c.endLine)
+            ));
+        }
+        await this.setFinalStatus(status, summary);
+    }
+
+    private async setFinalStatus(status: ReviewStatus, summary?: string): Promise<void> {
         if (!this.reviewerId) return;
 
         const voteMap: Record<ReviewStatus, number> = {
             'approved': 10,
-            'commented': 5,
-            'changes_requested': -5
+            'commented': 5,         // Approved with suggestions
+            'no_vote': 0,
+            'waiting': -5,          // Waiting for author
+            'changes_requested': -5,
+            'rejected': -10
         };
 
         const vote = voteMap[status];
         await setPrVote(this.project, this.repoId, this.prId, this.reviewerId, vote);
+
+        if (summary) {
+            await this.upsertSummaryThread(summary);
+        }
+
+        // Remember the reviewed commit so the next push is reviewed incrementally
+        if (this.headCommitId) {
+            const operations: { op: "add" | "remove"; path: string; value?: string }[] = [
+                { op: "add", path: `/${LAST_REVIEWED_COMMIT_PROPERTY}`, value: this.headCommitId },
+                { op: "add", path: `/${LAST_VOTE_PROPERTY}`, value: String(vote) }
+            ];
+            if (this.isLocked) operations.push({ op: "remove", path: `/${REVIEWING_COMMIT_PROPERTY}` });
+            await updatePrProperties(this.project, this.repoId, this.prId, operations);
+            this.isLocked = false;
+        }
+    }
+
+    /**
+     * Posts the summary as a closed top-level thread, or updates the one from an earlier review
+     */
+    private async upsertSummaryThread(summary: string): Promise<void> {
+        const threads = await getPrThreads(this.project, this.repoId, this.prId);
+        const summaryThread = threads.find(thread =>
+            !thread.isDeleted
+            && thread.comments?.[0]?.author?.displayName === env.AZDO_REVIEWER_NAME
+            && thread.comments[0].content?.includes(SUMMARY_MARKER)
+        );
+
+        if (summaryThread) {
+            await updateThreadComment(this.project, this.repoId, this.prId, summaryThread.id, summaryThread.comments[0].id, summary);
+        } else {
+            const threadId = await postReview(this.project, this.repoId, this.prId, summary);
+            await setThreadStatus(this.project, this.repoId, this.prId, threadId, 4); // Closed: informational only
+        }
     }
 
     getPRIdentifier(): string {
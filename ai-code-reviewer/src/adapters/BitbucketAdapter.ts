@@ -0,0 +1,485 @@
+import { InvocationContext } from "@azure/functions";
+import { PlatformAdapter, BotThread, ExistingComment, FileChange, ReviewComment, ReviewStatus } from "../interfaces/PlatformAdapter";
+import {
+    BitbucketCloudComment,
+    BitbucketCloudDiffStat,
+    BitbucketCloudPullRequest,
+    BitbucketCloudWebhookPayload,
+    BitbucketServerActivity,
+    BitbucketServerChange,
+    BitbucketServerDiffResponse,
+    BitbucketServerPullRequest,
+    BitbucketServerWebhookPayload,
+    BitbucketWebhookPayload
+} from "../types/bitbucket";
+import bitbucket, { getAllPages, isBitbucketCloud } from "../utils/bitbucketClient";
+import { getAddedLineRanges, overlapsLineRanges, splitUnifiedDiff } from "../utils/diffUtils";
+import { findMarkedCommits, formatReviewMarker, SUMMARY_MARKER } from "../utils/reviewMarkers";
+import { SUMMARY_HEADING } from "../utils/reviewSummary";
+import { appendSuggestion } from "../utils/suggestions";
+import { env } from "../config/envVariables";
+
+/**
+ * Bitbucket Pull Request Adapter
+ * Supports Bitbucket Cloud, and Bitbucket Data Center when BITBUCKET_URL is configured.
+ */
+export class BitbucketAdapter implements PlatformAdapter {
+    private repoUrl: string;
+    private prUrl: string;
+    private prId: number;
+    private repoName: string;
+    private headSha: string;
+    private reviewerSlug?: string;          // Data Center only: the bot's user slug
+    private lastReviewedCommit?: string;
+    private lockComment?: { id: number; version?: number };
+    private filePatches = new Map<string, string>();
+    private context: InvocationContext;
+
+    constructor(private payload: BitbucketWebhookPayload, private eventKey: string | null, context: InvocationContext) {
+        this.context = context;
+
+        if (isBitbucketCloud) {
+            const cloud = payload as BitbucketCloudWebhookPayload;
+            this.repoName = cloud.repository.full_name;
+            this.repoUrl = `/repositories/${cloud.repository.full_name}`;
+            this.prId = cloud.pullrequest.id;
+            this.prUrl = `${this.repoUrl}/pullrequests/${this.prId}`;
+            this.headSha = cloud.pullrequest.source.commit.hash;
+        } else {
+            const server = (payload as BitbucketServerWebhookPayload).pullRequest;
+            const repo = server.toRef.repository;
+            this.repoName = `${repo.project.key}/${repo.slug}`;
+            this.repoUrl = `/projects/${encodeURIComponent(repo.project.key)}/repos/${encodeURIComponent(repo.slug)}`;
+            this.prId = server.id;
+            this.prUrl = `${this.repoUrl}/pull-requests/${this.prId}`;
+            this.headSha = server.fromRef.latestCommit;
+        }
+    }
+
+    async validateWebhook(): Promise<boolean> {
+        const allowedEvents = isBitbucketCloud
+            ? ["pullrequest:created", "pullrequest:updated"]
+            : ["pr:opened", "pr:from_ref_updated", "pr:reviewer:updated"];
+        return allowedEvents.includes(this.eventKey);
+    }
+
+    async shouldProcessPR(): Promise<boolean> {
+        const botName = (env.BITBUCKET_REVIEWER_NAME || "").toLowerCase();
+
+        if (isBitbucketCloud) {
+            const { data: pr } = await bitbucket.get<BitbucketCloudPullRequest>(this.prUrl);
+            if (pr.state !== "OPEN") return false;
+            this.headSha = pr.source.commit.hash;
+
+            if (!pr.reviewers?.some(user => this.isBot(user))) return false;
+            return this.shouldReviewHead();
+        }
+
+        const { data: pr } = await bitbucket.get<BitbucketServerPullRequest>(this.prUrl);
+        if (pr.state !== "OPEN") return false;
+        this.headSha = pr.fromRef.latestCommit;
+
+        const reviewer = pr.reviewers?.find(r =>
+            r.user.slug.toLowerCase() === botName || r.user.name.toLowerCase() === botName || r.user.displayName.toLowerCase() === botName
+        );
+        if (!reviewer) return false;
+
+        this.reviewerSlug = reviewer.user.slug;
+        return this.shouldReviewHead();
+    }
+
+    /**
+     * Checks the markers in the bot's comments: skips a head that is being reviewed or was reviewed already,
+     * and reviews only the commits pushed since the last review otherwise (analogous to GitLab)
+     */
+    private async shouldReviewHead(): Promise<boolean> {
+        const botComments = await this.getBotComments();
+        if (botComments.some(comment => findMarkedCommits(comment.text, "reviewing").includes(this.headSha))) return false;
+
+        const lastReviewedCommit = botComments.flatMap(comment => findMarkedCommits(comment.text, "reviewed")).pop();
+        if (lastReviewedCommit === this.headSha) return false;
+
+        this.lastReviewedCommit = lastReviewedCommit;
+        return true;
+    }
+
+    async lockPR(): Promise<void> {
+        // Mark the PR as "changes requested / needs work" (analogous to AzDo's setPrVote(-5)),
+        // and post a "reviewing" marker so shouldProcessPR() returns false for concurrent/duplicate triggers.
+        if (isBitbucketCloud) {
+            // An approval and a change request exclude each other
+            await this.deleteIfExists(`${this.prUrl}/approve`);
+            await bitbucket.post(`${this.prUrl}/request-changes`);
+        } else {
+            await this.setServerStatus("NEEDS_WORK");
+        }
+
+        const text = `🤖 **${env.BITBUCKET_REVIEWER_NAME}** is reviewing this Pull Request...\n\n${formatReviewMarker("reviewing", this.headSha, "link")}`;
+        const { data: comment } = await bitbucket.post<{ id: number; version?: number }>(
+            `${this.prUrl}/comments`,
+            isBitbucketCloud ? { content: { raw: text } } : { text }
+        );
+        this.lockComment = { id: comment.id, version: comment.version };
+    }
+
+    async unlockPR(): Promise<void> {
+        if (isBitbucketCloud) {
+            await this.deleteIfExists(`${this.prUrl}/request-changes`);
+        } else if (this.reviewerSlug) {
+            await this.setServerStatus("UNAPPROVED");
+        }
+
+        // Deleting the "reviewing" comment removes the marker checked by shouldProcessPR()
+        if (this.lockComment) {
+            await bitbucket.delete(`${this.prUrl}/comments/${this.lockComment.id}`, {
+                params: isBitbucketCloud ? undefined : { version: this.lockComment.version }
+            });
+            this.lockComment = undefined;
+        }
+    }
+
+    async getChangedFiles(): Promise<FileChange[]> {
+        const paths = await this.getChangedPaths();
+
+        if (this.lastReviewedCommit) {
+            try {
+                // Only files that are still part of the PR, with the diff since the last review
+                const newPaths = await this.getChangedPaths(this.lastReviewedCommit);
+                return newPaths
+                    .filter(path => paths.includes(path))
+                    .map(path => ({ path, commitId: this.headSha }));
+            } catch (error: any) {
+                // The last reviewed commit no longer exists (e.g., force-push), review the whole PR
+                if (error.response?.status !== 404) throw error;
+                this.context.log(`[Bitbucket] Last reviewed commit ${this.lastReviewedCommit} not found, reviewing the whole PR`);
+                this.lastReviewedCommit = undefined;
+            }
+        }
+
+        return paths.map(path => ({ path, commitId: this.headSha }));
+    }
+
+    /**
+     * Lists the changed files of the PR, or the ones changed between `sinceCommit` and the head, without the deleted ones.
+     * On Cloud, also caches their hunks for getFileDiff().
+     */
+    private async getChangedPaths(sinceCommit?: string): Promise<string[]> {
+        if (isBitbucketCloud) {
+            // "head..since" compares the head against its merge base with the since commit, i.e. the commits pushed since
+            const url = (endpoint: "diffstat" | "diff") =>
+                sinceCommit ? `${this.repoUrl}/${endpoint}/${this.headSha}..${sinceCommit}` : `${this.prUrl}/${endpoint}`;
+            const diffStats = await getAllPages<BitbucketCloudDiffStat>(url("diffstat"));
+
+            // The diff endpoint returns one multi-file git diff; cache the per-file hunks for getFileDiff()
+            const { data: diff } = await bitbucket.get<string>(url("diff"), {
+                responseType: "text",
+                transformResponse: [data => data]
+            });
+            this.filePatches = splitUnifiedDiff(diff || "");
+
+            return diffStats
+                .filter(d => d.status !== "removed" && d.new?.path)
+                .map(d => d.new!.path);
+        }
+
+        const changes = sinceCommit
+            ? await getAllPages<BitbucketServerChange>(`${this.repoUrl}/compare/changes`, { from: this.headSha, to: sinceCommit })
+            : await getAllPages<BitbucketServerChange>(`${this.prUrl}/changes`);
+        return changes
+            .filter(c => c.type !== "DELETE")
+            .map(c => c.path.toString);
+    }
+
+    getHeadCommit(): string | undefined {
+        return this.headSha;
+    }
+
+    async getFileContent(path: string, commitId: string): Promise<string> {
+        const encodedPath = path.replace(/^\/+/, "").split("/").map(encodeURIComponent).join("/");
+        const url = isBitbucketCloud
+            ? `${this.repoUrl}/src/${commitId}/${encodedPath}`
+            : `${this.repoUrl}/raw/${encodedPath}`;
+
+        const res = await bitbucket.get<string>(url, {
+            params: isBitbucketCloud ? undefined : { at: commitId },
+            responseType: "text",
+            transformResponse: [data => data]
+        });
+        return res.data || "";
+    }
+
+    async getFileDiff(file: FileChange): Promise<string> {
+        if (isBitbucketCloud) {
+            return this.filePatches.get(file.path) || "";
+        }
+
+        if (!this.filePatches.has(file.path)) {
+            const encodedPath = file.path.split("/").map(encodeURIComponent).join("/");
+            // Incremental re-review: the diff since the last reviewed commit
+            const { data } = this.lastReviewedCommit
+                ? await bitbucket.get<BitbucketServerDiffResponse>(`${this.repoUrl}/compare/diff/${encodedPath}`, {
+                    params: { from: this.headSha, to: this.lastReviewedCommit, contextLines: 3 }
+                })
+                : await bitbucket.get<BitbucketServerDiffResponse>(`${this.prUrl}/diff/${encodedPath}`, {
+                    params: { contextLines: 3, withComments: false }
+                });
+            this.filePatches.set(file.path, toUnifiedDiff(data));
+        }
+        return this.filePatches.get(file.path) || "";
+    }
+
+    async getRepoFilePaths(commitId: string): Promise<string[]> {
+        if (isBitbucketCloud) {
+            const entries = await getAllPages<{ type: string; path: string }>(`${this.repoUrl}/src/${commitId}/`, { max_depth: 100 });
+            return entries.filter(e => e.type === "commit_file").map(e => e.path);
+        }
+        return getAllPages<string>(`${this.repoUrl}/files`, { at: commitId });
+    }
+
+    getLastReviewedCommit(): string | undefined {
+        return this.lastReviewedCommit;
+    }
+
+    /**
+     * Threads are not resolved automatically (no resolveThread()), but still-open ones count towards the
+     * approval policy and are not raised again
+     */
+    async getOpenBotThreads(): Promise<BotThread[]> {
+        if (isBitbucketCloud) {
+            const comments = await getAllPages<BitbucketCloudComment>(`${this.prUrl}/comments`);
+            return comments
+                .filter(comment => !comment.deleted && !comment.resolution && comment.inline?.to && this.isBot(comment.user))
+                .map(comment => ({
+                    id: String(comment.id),
+                    path: comment.inline!.path,
+                    endLine: comment.inline!.to!,
+                    comment: comment.content.raw
+                }));
+        }
+
+        const activities = await getAllPages<BitbucketServerActivity>(`${this.prUrl}/activities`);
+        return activities
+            .filter(activity => activity.action === "COMMENTED" && activity.commentAnchor?.line
+                && activity.comment && !activity.comment.threadResolved && activity.comment.author?.slug === this.reviewerSlug)
+            .map(activity => ({
+                id: String(activity.comment!.id),
+                path: activity.commentAnchor!.path,
+                endLine: activity.commentAnchor!.line,
+                comment: activity.comment!.text
+            }));
+    }
+
+    async getExistingComments(): Promise<ExistingComment[]> {
+        if (isBitbucketCloud) {
+            const comments = await getAllPages<BitbucketCloudComment>(`${this.prUrl}/comments`);
+            return comments
+                .filter(comment => !comment.deleted)
+                .map(comment => ({
+                    path: comment.inline?.path,
+                    endLine: comment.inline?.to ?? undefined,
+                    body: comment.content.raw
+                }));
+        }
+
+        // Data Center only lists top-level comments through the activity stream
+        const activities = await getAllPages<BitbucketServerActivity>(`${this.prUrl}/activities`);
+        return activities
+            .filter(activity => activity.action === "COMMENTED" && activity.comment)
+            .map(activity => ({
+                path: activity.commentAnchor?.path,
+                endLine: activity.commentAnchor?.line,
+                body: activity.comment!.text
+            }));
+    }
+
+    async postGeneralComment(body: string): Promise<void> {
+        await bitbucket.post(`${this.prUrl}/comments`, isBitbucketCloud ? { content: { raw: body } } : { text: body });
+    }
+
+    async submitReview(comments: ReviewComment[], status: ReviewStatus, summary?: string): Promise<void> {
+        // No batch API for comments, so post them one by one before the final status
+        for (const comment of comments) {
+            // Bitbucket has no committable suggestions, so show the proposed code as a plain block
+            const body = appendSuggestion(comment.comment, comment.suggestion, "");
+            await this.postComment(comment.filePath, comment.startLine, comment.endLine, body);
+        }
+        await this.setFinalStatus(status, summary);
+    }
+
+    private async postComment(path: string, startLine: number | undefined, endLine: number | undefined, comment: string): Promise<void> {
+        if (endLine && endLine > 0) {
+            const lineInfo = startLine && startLine < endLine
+                ? `Lines ${startLine}-${endLine}`
+                : `Line ${endLine}`;
+            const body = startLine && startLine < endLine ? `**${lineInfo}**\n\n${comment}` : comment;
+
+            try {
+                if (isBitbucketCloud) {
+                    await bitbucket.post(`${this.prUrl}/comments`, {
+                        content: { raw: body },
+                        inline: { path, to: endLine }
+                    });
+                } else {
+                    const isChangedLine = overlapsLineRanges(endLine, endLine, getAddedLineRanges(this.filePatches.get(path)));
+                    await bitbucket.post(`${this.prUrl}/comments`, {
+                        text: body,
+                        anchor: {
+                            path,
+                            line: endLine,
+                            lineType: isChangedLine ? "ADDED" : "CONTEXT",
+                            fileType: "TO",
+                            diffType: "EFFECTIVE"
+                        }
+                    });
+                }
+            } catch (error: any) {
+                // If the line can't be anchored in the diff, fall back to a general comment
+                if (error.response?.status === 400 || error.response?.status === 409) {
+                    this.context.log(`[Bitbucket] ${lineInfo} for file ${path} not in diff, posting as file-level comment`);
+                    await this.postGeneralComment(`**File: ${path}** (${lineInfo} not in diff, posting as file-level comment)\n\n${comment}`);
+                } else {
+                    throw error; // Re-throw other errors
+                }
+            }
+        } else {
+            // General file-level comment
+            await this.postGeneralComment(`**File: ${path}**\n\n${comment}`);
+        }
+    }
+
+    private async setFinalStatus(status: ReviewStatus, summary?: string): Promise<void> {
+        const bodies: Record<ReviewStatus, string> = {
+            'approved': `✅ Pull Request approved by **${env.BITBUCKET_REVIEWER_NAME}**.`,
+            'changes_requested': `🔴 Major issues found by **${env.BITBUCKET_REVIEWER_NAME}**. Please address the feedback.`,
+            'commented': `🟡 Suggestions provided by **${env.BITBUCKET_REVIEWER_NAME}** for improvement.`,
+            'no_vote': `💬 Review by **${env.BITBUCKET_REVIEWER_NAME}**, see the summary.`,
+            'waiting': `⏳ **${env.BITBUCKET_REVIEWER_NAME}** is waiting before approving this Pull Request. See the summary.`,
+            'rejected': `⛔ Pull Request rejected by **${env.BITBUCKET_REVIEWER_NAME}**. Please address the feedback.`
+        };
+        // The marker records the reviewed commit so the next push is reviewed incrementally
+        await this.postGeneralComment(`${bodies[status]}\n\n${formatReviewMarker("reviewed", this.headSha, "link")}`);
+
+        if (summary) {
+            await this.upsertSummaryComment(summary);
+        }
+
+        if (!isBitbucketCloud) {
+            const serverStatus = {
+                approved: "APPROVED", commented: "UNAPPROVED", no_vote: "UNAPPROVED", waiting: "UNAPPROVED", changes_requested: "NEEDS_WORK", rejected: "NEEDS_WORK"
+            } as const;
+            await this.setServerStatus(serverStatus[status]);
+            return;
+        }
+
+        if (status === 'changes_requested' || status === 'rejected') return; // Already requested by lockPR()
+
+        // Clear the lock before approving or leaving a plain comment
+        await this.deleteIfExists(`${this.prUrl}/request-changes`);
+        if (status === 'approved') {
+            await bitbucket.post(`${this.prUrl}/approve`);
+        }
+    }
+
+    getPRIdentifier(): string {
+        return `Bitbucket:${this.repoName}#${this.prId}`;
+    }
+
+    private isBot(user?: { display_name: string; nickname?: string }): boolean {
+        const botName = (env.BITBUCKET_REVIEWER_NAME || "").toLowerCase();
+        return !!user && (user.nickname?.toLowerCase() === botName || user.display_name?.toLowerCase() === botName);
+    }
+
+    /**
+     * The bot's comments, oldest first
+     */
+    private async getBotComments(): Promise<{ text: string }[]> {
+        if (isBitbucketCloud) {
+            const comments = await getAllPages<BitbucketCloudComment>(`${this.prUrl}/comments`);
+            return comments
+                .filter(comment => !comment.deleted && this.isBot(comment.user))
+                .map(comment => ({ text: comment.content.raw }));
+        }
+
+        // The activity stream lists the newest first
+        const activities = await getAllPages<BitbucketServerActivity>(`${this.prUrl}/activities`);
+        return activities
+            .filter(activity => activity.action === "COMMENTED" && activity.comment?.author?.slug === this.reviewerSlug)
+            .map(activity => ({ text: activity.comment!.text }))
+            .reverse();
+    }
+
+    /**
+     * Deletes an approval or change request, ignoring the 404 returned when the bot had not set it
+     */
+    private async deleteIfExists(url: string): Promise<void> {
+        try {
+            await bitbucket.delete(url);
+        } catch (error: any) {
+            if (error.response?.status !== 404) throw error;
+        }
+    }
+
+    /**
+     * Posts the summary as a general comment, or updates the one from an earlier review.
+     * Bitbucket may show HTML comments as text, so the summary is found by its heading instead of the marker.
+     */
+    private async upsertSummaryComment(summary: string): Promise<void> {
+        const text = summary.replace(SUMMARY_MARKER, "").trim();
+
+        if (isBitbucketCloud) {
+            const comments = await getAllPages<BitbucketCloudComment>(`${this.prUrl}/comments`);
+            const summaryComment = comments.find(c =>
+                !c.deleted && !c.inline && c.content.raw.startsWith(SUMMARY_HEADING) && this.isBot(c.user)
+            );
+            if (summaryComment) {
+                await bitbucket.put(`${this.prUrl}/comments/${summaryComment.id}`, { content: { raw: text } });
+                return;
+            }
+        } else {
+            const activities = await getAllPages<BitbucketServerActivity>(`${this.prUrl}/activities`);
+            const summaryComment = activities.find(a =>
+                a.action === "COMMENTED" && !a.commentAnchor && a.comment?.text.startsWith(SUMMARY_HEADING)
+                && a.comment.author?.slug === this.reviewerSlug
+            )?.comment;
+            if (summaryComment) {
+                await bitbucket.put(`${this.prUrl}/comments/${summaryComment.id}`, { text, version: summaryComment.version });
+                return;
+            }
+        }
+
+        await this.postGeneralComment(text);
+    }
+
+    /**
+     * Sets the bot's participant status on a Data Center pull request
+     */
+    private async setServerStatus(status: "APPROVED" | "NEEDS_WORK" | "UNAPPROVED"): Promise<void> {
+        if (!this.reviewerSlug) throw new Error("Reviewer not identified");
+        await bitbucket.put(`${this.prUrl}/participants/${encodeURIComponent(this.reviewerSlug)}`, {
+            user: { name: this.reviewerSlug },
+            approved: status === "APPROVED",
+            status
+        });
+    }
+}
+
+/**
+ * Converts the Bitbucket Data Center JSON diff into unified diff hunks
+ */
+function toUnifiedDiff(response: BitbucketServerDiffResponse): string {
+    const lines: string[] = [];
+    const prefix = { ADDED: "+", REMOVED: "-", CONTEXT: " " };
+
+    for (const diff of response.diffs || []) {
+        for (const hunk of diff.hunks || []) {
+            lines.push(`@@ -${hunk.sourceLine},${hunk.sourceSpan} +${hunk.destinationLine},${hunk.destinationSpan} @@`);
+            for (const segment of hunk.segments) {
+                for (const line of segment.lines) {
+                    lines.push(`${prefix[segment.type]}${line.line}`);
+                }
+            }
+        }
+    }
+
+    return lines.join("\n");
+}
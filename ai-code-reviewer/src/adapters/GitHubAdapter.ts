@@ -1,10 +1,18 @@
 import { Octokit } from "@octokit/rest";
 import { createAppAuth } from "@octokit/auth-app";
 import { InvocationContext } from "@azure/functions";
-import { PlatformAdapter, FileChange, ReviewStatus } from "../interfaces/PlatformAdapter";
+import { PlatformAdapter, BotThread, ExistingComment, FileChange, ReviewComment, ReviewStatus } from "../interfaces/PlatformAdapter";
 import { GitHubWebhookPayload } from "../types/github";
+import { findMarkedCommits, formatReviewMarker, SUMMARY_MARKER } from "../utils/reviewMarkers";
+import { replaceReviewSummary } from "../utils/reviewSummary";
+import { getHunkLineRanges, overlapsLineRanges } from "../utils/diffUtils";
+import { appendSuggestion } from "../utils/suggestions";
 import { env } from "../config/envVariables";
 
+// Separates the status, the summary, the file-level comments and the marker in a review body
+const REVIEW_BODY_SEPARATOR = "\n\n---\n\n";
+const FILE_LEVEL_HEADER = /^\*\*File: (.+?)\*\*(?: \((?:Lines (\d+)-(\d+)|Line (\d+)) not in diff[^)]*\))?\n\n/;
+
 /**
  * GitHub Adapter using GitHub App Authentication
  */
@@ -15,6 +23,11 @@ export class GitHubAdapter implements PlatformAdapter {
     private prNumber: number;
     private headSha: string;
     private context: InvocationContext;
+    private filePatches = new Map<string, string>();
+    private prPatches = new Map<string, string>();     // Whole-PR patches; inline comments must fall within these hunks
+    private requestedReviewer?: { login?: string; teamSlug?: string };
+    private lastReviewedCommit?: string;
+    private lockReviewId?: number;
 
     constructor(private payload: GitHubWebhookPayload, context: InvocationContext) {
         this.owner = payload.repository.owner.login;
@@ -33,8 +46,15 @@ export class GitHubAdapter implements PlatformAdapter {
         });
     }
 
+    /**
+     * Reviewer name as it appears in GitHub logins (e.g., "Tech Lead Anna" -> "tech-lead-anna")
+     */
+    private get botName(): string {
+        return env.GITHUB_REVIEWER_NAME.toLowerCase().replace(/\s+/g, '-');
+    }
+
     async validateWebhook(): Promise<boolean> {
-        const allowedActions = ["review_requested"];
+        const allowedActions = ["review_requested", "synchronize"];
         return allowedActions.includes(this.payload.action);
     }
 
@@ -45,50 +65,143 @@ export class GitHubAdapter implements PlatformAdapter {
             pull_number: this.prNumber,
         });
 
-        const botName = env.GITHUB_REVIEWER_NAME.toLowerCase().replace(/\s+/g, '-');
+        const botName = this.botName;
+        this.headSha = pr.head.sha;
+
+        if (this.payload.action === "synchronize") {
+            return pr.state === "open" && this.shouldReviewNewCommits(botName);
+        }
 
         // Check if bot is still in requested_reviewers (analogous to AzDo vote === 0)
         // Once lockPR() submits a review, the bot is removed from requested_reviewers,
         // preventing duplicate processing — just like AzDo's vote !== 0 check.
-        const isRequestedReviewer = pr.requested_reviewers?.some(
+        const requestedUser = pr.requested_reviewers?.find(
             (reviewer: any) => reviewer.login?.toLowerCase().includes(botName)
-        ) || pr.requested_teams?.some(
+        );
+        const requestedTeam = pr.requested_teams?.find(
             (team: any) => team.name?.toLowerCase().includes(botName)
         );
 
-        if (!isRequestedReviewer) {
+        if (!requestedUser && !requestedTeam) {
             return false;
         }
 
+        // Remember who was requested so unlockPR() can request the review again
+        this.requestedReviewer = { login: requestedUser?.login, teamSlug: requestedTeam?.slug };
+        return true;
+    }
+
+    /**
+     * On a push, review again only if the bot has reviewed an older commit
+     * and no review of the new head is in progress or done.
+     */
+    private async shouldReviewNewCommits(botName: string): Promise<boolean> {
+        const reviews = await this.octokit.paginate(this.octokit.pulls.listReviews, {
+            owner: this.owner,
+            repo: this.repo,
+            pull_number: this.prNumber,
+            per_page: 100,
+        });
+        const botReviewBodies = reviews
+            .filter(review => review.user?.login?.toLowerCase().includes(botName))
+            .map(review => review.body || "");
+
+        const lastReviewedCommit = botReviewBodies.flatMap(body => findMarkedCommits(body, "reviewed")).pop();
+        const isHeadHandled = botReviewBodies.some(body =>
+            findMarkedCommits(body, "reviewing").includes(this.headSha) || findMarkedCommits(body, "reviewed").includes(this.headSha)
+        );
+
+        if (!lastReviewedCommit || isHeadHandled) return false;
+
+        this.lastReviewedCommit = lastReviewedCommit;
         return true;
     }
 
     async lockPR(): Promise<void> {
         // Submit a COMMENT review to "lock" the PR (analogous to AzDo's setPrVote(-5)).
-        // Submitting a review removes the bot from requested_reviewers,
-        // so shouldProcessPR() will return false for concurrent/duplicate triggers.
-        await this.octokit.pulls.createReview({
+        // Submitting a review removes the bot from requested_reviewers, and the marker
+        // lets shouldReviewNewCommits() skip the head, so concurrent/duplicate triggers are ignored.
+        const { data: review } = await this.octokit.pulls.createReview({
             owner: this.owner,
             repo: this.repo,
             pull_number: this.prNumber,
             event: "COMMENT",
-            body: `🤖 **${env.GITHUB_REVIEWER_NAME}** is reviewing this Pull Request...`,
+            body: `🤖 **${env.GITHUB_REVIEWER_NAME}** is reviewing this Pull Request...\n\n${formatReviewMarker("reviewing", this.headSha)}`,
+        });
+        this.lockReviewId = review.id;
+    }
+
+    async unlockPR(): Promise<void> {
+        // Submitted reviews cannot be deleted, so drop the marker from the lock review instead
+        if (this.lockReviewId) {
+            await this.octokit.pulls.updateReview({
+                owner: this.owner,
+                repo: this.repo,
+                pull_number: this.prNumber,
+                review_id: this.lockReviewId,
+                body: `🤖 **${env.GITHUB_REVIEWER_NAME}** could not finish reviewing this Pull Request, retrying...`,
+            });
+            this.lockReviewId = undefined;
+        }
+
+        // Re-request the review so shouldProcessPR() accepts the next attempt
+        if (!this.requestedReviewer) return;
+        await this.octokit.pulls.requestReviewers({
+            owner: this.owner,
+            repo: this.repo,
+            pull_number: this.prNumber,
+            reviewers: this.requestedReviewer.login ? [this.requestedReviewer.login] : [],
+            team_reviewers: this.requestedReviewer.teamSlug ? [this.requestedReviewer.teamSlug] : [],
         });
     }
 
     async getChangedFiles(): Promise<FileChange[]> {
-        const { data: files } = await this.octokit.pulls.listFiles({
+        let files = await this.octokit.paginate(this.octokit.pulls.listFiles, {
             owner: this.owner,
             repo: this.repo,
             pull_number: this.prNumber,
+            per_page: 100,
         });
 
-        return files.map(f => ({
+        for (const f of files) {
+            this.prPatches.set(f.filename, f.patch || "");
+        }
+
+        if (this.lastReviewedCommit) {
+            const { data: comparison } = await this.octokit.repos.compareCommitsWithBasehead({
+                owner: this.owner,
+                repo: this.repo,
+                basehead: `${this.lastReviewedCommit}...${this.headSha}`,
+            });
+
+            if (comparison.status === "ahead") {
+                // Only files that are still part of the PR, with the patch since the last review
+                const newPatches = new Map((comparison.files || []).map(f => [f.filename, f.patch]));
+                files = files
+                    .filter(f => newPatches.has(f.filename))
+                    .map(f => ({ ...f, patch: newPatches.get(f.filename) }));
+            } else {
+                // Force-push or rebase: the last reviewed commit is not an ancestor of the head
+                this.context.log(`[GitHub] Last reviewed commit ${this.lastReviewedCommit} is not an ancestor of ${this.headSha}, reviewing the whole PR`);
+                this.lastReviewedCommit = undefined;
+            }
+        }
+
+        // Cache the per-file patch so getFileDiff() does not need another API call
+        for (const f of files) {
+            this.filePatches.set(f.filename, f.patch || "");
+        }
+
+        return files.filter(f => f.status !== "removed").map(f => ({
             path: f.filename,
             commitId: this.headSha
         }));
     }
 
+    getHeadCommit(): string | undefined {
+        return this.headSha;
+    }
+
     async getFileContent(path: string, commitId: string): Promise<string> {
         const { data }: any = await this.octokit.repos.getContent({
             owner: this.owner,
@@ -103,79 +216,273 @@ export class GitHubAdapter implements PlatformAdapter {
         return "";
     }
 
-    async postComment(path: string, startLine: number | undefined, endLine: number | undefined, comment: string): Promise<void> {
-        if (endLine && endLine > 0) {
-            try {
-                // Prepare review comment parameters
-                const reviewComment: any = {
+    async getFileDiff(file: FileChange): Promise<string> {
+        // GitHub omits the patch for binary files and very large diffs
+        return this.filePatches.get(file.path) || "";
+    }
+
+    async getRepoFilePaths(commitId: string): Promise<string[]> {
+        const { data } = await this.octokit.git.getTree({
+            owner: this.owner,
+            repo: this.repo,
+            tree_sha: commitId,
+            recursive: "true",
+        });
+
+        if (data.truncated) {
+            this.context.log(`[GitHub] Repository tree for ${commitId} is truncated, code map will be partial`);
+        }
+
+        return data.tree
+            .filter(item => item.type === "blob" && item.path)
+            .map(item => item.path!);
+    }
+
+    getLastReviewedCommit(): string | undefined {
+        return this.lastReviewedCommit;
+    }
+
+    async getOpenBotThreads(): Promise<BotThread[]> {
+        // Review threads and their resolution state are only available through GraphQL
+        const threads: BotThread[] = [];
+        let cursor: string | null = null;
+
+        do {
+            const result: any = await this.octokit.graphql(`
+                query($owner: String!, $repo: String!, $number: Int!, $cursor: String) {
+                    repository(owner: $owner, name: $repo) {
+                        pullRequest(number: $number) {
+                            reviewThreads(first: 100, after: $cursor) {
+                                pageInfo { hasNextPage endCursor }
+                                nodes {
+                                    id
+                                    isResolved
+                                    path
+                                    line
+                                    startLine
+                                    originalLine
+                                    originalStartLine
+                                    comments(first: 1) { nodes { body author { login } } }
+                                }
+                            }
+                        }
+                    }
+                }`,
+                { owner: this.owner, repo: this.repo, number: this.prNumber, cursor }
+            );
+
+            const reviewThreads = result.repository.pullRequest.reviewThreads;
+            for (const thread of reviewThreads.nodes) {
+                const first = thread.comments.nodes[0];
+                if (thread.isResolved || !first?.author?.login?.toLowerCase().includes(this.botName)) continue;
+                threads.push({
+                    id: thread.id,
+                    path: thread.path,
+                    // line is null once the thread is outdated, so fall back to the original position
+                    startLine: thread.startLine ?? thread.originalStartLine ?? undefined,
+                    endLine: thread.line ?? thread.originalLine ?? undefined,
+                    comment: first.body
+                });
+            }
+            cursor = reviewThreads.pageInfo.hasNextPage ? reviewThreads.pageInfo.endCursor : null;
+        } while (cursor);
+
+        return threads;
+    }
+
+    async resolveThread(thread: BotThread): Promise<void> {
+        await this.octokit.graphql(`
+            mutation($threadId: ID!) {
+                resolveReviewThread(input: { threadId: $threadId }) { thread { id } }
+            }`,
+            { threadId: thread.id }
+        );
+    }
+
+    async getExistingComments(): Promise<ExistingComment[]> {
+        const params = { owner: this.owner, repo: this.repo, per_page: 100 };
+        const [comments, reviews, issueComments] = await Promise.all([
+            this.octokit.paginate(this.octokit.pulls.listReviewComments, { ...params, pull_number: this.prNumber }),
+            this.octokit.paginate(this.octokit.pulls.listReviews, { ...params, pull_number: this.prNumber }),
+            this.octokit.paginate(this.octokit.issues.listComments, { ...params, issue_number: this.prNumber }),
+        ]);
+
+        const inlineComments = comments.map(comment => ({
+            path: comment.path,
+            startLine: comment.start_line ?? comment.original_start_line ?? undefined,
+            endLine: comment.line ?? comment.original_line ?? undefined,
+            body: comment.body
+        }));
+
+        // File-level comments are posted as sections of a review body (see toFileLevelComment()) or as PR comments
+        const bodyComments = [...reviews, ...issueComments]
+            .flatMap(comment => (comment.body || "").split(REVIEW_BODY_SEPARATOR))
+            .filter(section => section.trim())
+            .map(parseFileLevelComment);
+
+        return [...inlineComments, ...bodyComments];
+    }
+
+    async postGeneralComment(body: string): Promise<void> {
+        await this.octokit.issues.createComment({
+            owner: this.owner,
+            repo: this.repo,
+            issue_number: this.prNumber,
+            body,
+        });
+    }
+
+    async submitReview(comments: ReviewComment[], status: ReviewStatus, summary?: string): Promise<void> {
+        const eventMap: Record<ReviewStatus, "APPROVE" | "REQUEST_CHANGES" | "COMMENT"> = {
+            'approved': "APPROVE",
+            'changes_requested': "REQUEST_CHANGES",
+            'commented': "COMMENT",
+            'no_vote': "COMMENT",
+            'waiting': "COMMENT",
+            'rejected': "REQUEST_CHANGES"
+        };
+
+        const bodies: Record<ReviewStatus, string> = {
+            'approved': `✅ Pull Request approved by **${env.GITHUB_REVIEWER_NAME}**.`,
+            'changes_requested': `🔴 Major issues found by **${env.GITHUB_REVIEWER_NAME}**. Please address the feedback.`,
+            'commented': `🟡 Suggestions provided by **${env.GITHUB_REVIEWER_NAME}** for improvement.`,
+            'no_vote': `💬 Review by **${env.GITHUB_REVIEWER_NAME}**, see the summary.`,
+            'waiting': `⏳ **${env.GITHUB_REVIEWER_NAME}** is waiting before approving this Pull Request. See the summary.`,
+            'rejected': `⛔ Pull Request rejected by **${env.GITHUB_REVIEWER_NAME}**. Please address the feedback.`
+        };
+        const body = bodies[status];
+
+        // One review with all inline comments: GitHub rejects the whole review if any comment is outside the diff,
+        // so comments on lines outside the PR's hunks go into the review body instead
+        const inlineComments: any[] = [];
+        const fileLevelComments: string[] = [];
+        for (const comment of comments) {
+            const inline = this.toInlineComment(comment);
+            if (inline) {
+                inlineComments.push(inline);
+            } else {
+                fileLevelComments.push(this.toFileLevelComment(comment));
+            }
+        }
+
+        // On re-review, update the summary of the earlier review in place instead of adding another one
+        let isSummaryUpdated = false;
+        if (summary) {
+            const previousReview = await this.findSummaryReview();
+            if (previousReview) {
+                await this.octokit.pulls.updateReview({
                     owner: this.owner,
                     repo: this.repo,
                     pull_number: this.prNumber,
-                    body: comment,
-                    commit_id: this.headSha,
-                    path: path,
-                    line: endLine,  // Required: end line
-                    side: "RIGHT"
-                };
-
-                // Add multi-line support if startLine is different from endLine
-                if (startLine && startLine < endLine) {
-                    reviewComment.start_line = startLine;
-                    reviewComment.start_side = "RIGHT";
-                }
-
-                await this.octokit.pulls.createReviewComment(reviewComment);
-            } catch (error: any) {
-                // If line can't be resolved (422 error), fall back to file-level comment
-                if (error.status === 422) {
-                    const lineInfo = startLine && startLine < endLine
-                        ? `Lines ${startLine}-${endLine}`
-                        : `Line ${endLine}`;
-                    this.context.log(`[GitHub] ${lineInfo} for file ${path} not in diff, posting as file-level comment`);
-                    await this.octokit.issues.createComment({
-                        owner: this.owner,
-                        repo: this.repo,
-                        issue_number: this.prNumber,
-                        body: `**File: ${path}** (${lineInfo} not in diff, posting as file-level comment)\n\n${comment}`,
-                    });
-                } else {
-                    throw error; // Re-throw other errors
-                }
+                    review_id: previousReview.id,
+                    body: replaceReviewSummary(previousReview.body, summary),
+                });
+                isSummaryUpdated = true;
             }
-        } else {
-            // General file-level comment
-            await this.octokit.issues.createComment({
+        }
+
+        const reviewBody = (bodyComments: string[]) => [
+            summary && !isSummaryUpdated ? `${body}\n\n${summary}` : body,
+            ...bodyComments,
+            formatReviewMarker("reviewed", this.headSha)
+        ].join(REVIEW_BODY_SEPARATOR);
+
+        try {
+            await this.octokit.pulls.createReview({
                 owner: this.owner,
                 repo: this.repo,
-                issue_number: this.prNumber,
-                body: `**File: ${path}**\n\n${comment}`,
+                pull_number: this.prNumber,
+                commit_id: this.headSha,
+                event: eventMap[status],
+                body: reviewBody(fileLevelComments),
+                comments: inlineComments,
+            });
+        } catch (error: any) {
+            // If a line still can't be resolved (422 error), post every comment in the review body
+            if (error.status !== 422 || inlineComments.length === 0) throw error;
+            this.context.log(`[GitHub] Inline comments rejected, posting all ${comments.length} comments in the review body`);
+            await this.octokit.pulls.createReview({
+                owner: this.owner,
+                repo: this.repo,
+                pull_number: this.prNumber,
+                commit_id: this.headSha,
+                event: eventMap[status],
+                body: reviewBody(comments.map(comment => this.toFileLevelComment(comment))),
             });
         }
     }
 
-    async setFinalStatus(status: ReviewStatus): Promise<void> {
-        const eventMap: Record<ReviewStatus, "APPROVE" | "REQUEST_CHANGES" | "COMMENT"> = {
-            'approved': "APPROVE",
-            'changes_requested': "REQUEST_CHANGES",
-            'commented': "COMMENT"
-        };
-
-        const body = status === 'approved'
-            ? `✅ Pull Request approved by **${env.GITHUB_REVIEWER_NAME}**.`
-            : status === 'changes_requested'
-                ? `🔴 Major issues found by **${env.GITHUB_REVIEWER_NAME}**. Please address the feedback.`
-                : `🟡 Suggestions provided by **${env.GITHUB_REVIEWER_NAME}** for improvement.`;
-
-        await this.octokit.pulls.createReview({
+    /**
+     * Finds the bot's earliest review that holds the review summary
+     */
+    private async findSummaryReview(): Promise<{ id: number; body: string } | undefined> {
+        const reviews = await this.octokit.paginate(this.octokit.pulls.listReviews, {
             owner: this.owner,
             repo: this.repo,
             pull_number: this.prNumber,
-            event: eventMap[status],
-            body: body,
+            per_page: 100,
         });
+        const review = reviews.find(r => r.user?.login?.toLowerCase().includes(this.botName) && r.body?.includes(SUMMARY_MARKER));
+        return review ? { id: review.id, body: review.body } : undefined;
+    }
+
+    /**
+     * Builds an inline review comment, or returns null if the lines are outside the PR's diff hunks
+     */
+    private toInlineComment(comment: ReviewComment): any | null {
+        const { filePath, startLine, endLine } = comment;
+        if (!endLine || endLine <= 0) return null;
+
+        const hunks = getHunkLineRanges(this.prPatches.get(filePath) || "");
+        if (!overlapsLineRanges(endLine, endLine, hunks)) {
+            const lineInfo = startLine && startLine < endLine ? `Lines ${startLine}-${endLine}` : `Line ${endLine}`;
+            this.context.log(`[GitHub] ${lineInfo} for file ${filePath} not in diff, posting as file-level comment`);
+            return null;
+        }
+
+        const inline: any = { path: filePath, line: endLine, side: "RIGHT" };
+
+        // Add multi-line support if startLine is different from endLine and in the same hunk
+        const hunk = hunks.find(h => endLine >= h.start && endLine <= h.end)!;
+        const isMultiLine = !!startLine && startLine < endLine;
+        if (isMultiLine && startLine >= hunk.start) {
+            inline.start_line = startLine;
+            inline.start_side = "RIGHT";
+        }
+
+        // A suggestion replaces exactly the commented lines, so only make it committable when the whole range is anchored
+        const isRangeAnchored = !isMultiLine || inline.start_line === startLine;
+        inline.body = appendSuggestion(comment.comment, comment.suggestion, isRangeAnchored ? "suggestion" : "");
+        return inline;
+    }
+
+    private toFileLevelComment(comment: ReviewComment): string {
+        const { filePath, startLine, endLine } = comment;
+        const body = appendSuggestion(comment.comment, comment.suggestion, "");
+        if (!endLine || endLine <= 0) return `**File: ${filePath}**\n\n${body}`;
+
+        const lineInfo = startLine && startLine < endLine ? `Lines ${startLine}-${endLine}` : `Line ${endLine}`;
+        return `**File: ${filePath}** (${lineInfo} not in diff, posting as file-level comment)\n\n${body}`;
     }
 
     getPRIdentifier(): string {
         return `GitHub:${this.owner}/${this.repo}#${this.prNumber}`;
     }
 }
+
+/**
+ * Reads the file and lines of a file-level comment from its header (see toFileLevelComment()).
+ * Text without the header is returned as a general comment.
+ */
+function parseFileLevelComment(text: string): ExistingComment {
+    const header = FILE_LEVEL_HEADER.exec(text);
+    if (!header) return { body: text };
+
+    const [, path, startLine, endLine, line] = header;
+    return {
+        path,
+        startLine: startLine ? Number(startLine) : undefined,
+        endLine: Number(endLine || line) || undefined,
+        body: text.slice(header[0].length)
+    };
+}
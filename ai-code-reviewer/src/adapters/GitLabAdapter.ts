@@ -0,0 +1,311 @@
+import { InvocationContext } from "@azure/functions";
+import { PlatformAdapter, BotThread, ExistingComment, FileChange, ReviewComment, ReviewStatus } from "../interfaces/PlatformAdapter";
+import { GitLabCompare, GitLabDiff, GitLabDiffRefs, GitLabDiscussion, GitLabMergeRequest, GitLabNote, GitLabTreeItem, GitLabWebhookPayload } from "../types/gitlab";
+import gitlab, { getAllPages } from "../utils/gitlabClient";
+import { findMarkedCommits, formatReviewMarker, SUMMARY_MARKER } from "../utils/reviewMarkers";
+import { appendSuggestion } from "../utils/suggestions";
+import { env } from "../config/envVariables";
+
+/**
+ * GitLab Merge Request Adapter (gitlab.com or self-hosted)
+ */
+export class GitLabAdapter implements PlatformAdapter {
+    private projectId: number;
+    private projectPath: string;
+    private mrIid: number;
+    private diffRefs?: GitLabDiffRefs;
+    private diffsByPath = new Map<string, GitLabDiff>();
+    private lockNoteId?: number;
+    private lastReviewedCommit?: string;
+    private context: InvocationContext;
+
+    constructor(private payload: GitLabWebhookPayload, context: InvocationContext) {
+        this.projectId = payload.project.id;
+        this.projectPath = payload.project.path_with_namespace;
+        this.mrIid = payload.object_attributes.iid;
+        this.context = context;
+    }
+
+    private get mrUrl(): string {
+        return `/projects/${this.projectId}/merge_requests/${this.mrIid}`;
+    }
+
+    async validateWebhook(): Promise<boolean> {
+        const allowedActions = ["open", "reopen", "update"];
+        return this.payload.object_kind === "merge_request"
+            && allowedActions.includes(this.payload.object_attributes.action);
+    }
+
+    async shouldProcessPR(): Promise<boolean> {
+        const { data: mr } = await gitlab.get<GitLabMergeRequest>(this.mrUrl);
+        if (mr.state !== "opened") return false;
+
+        const botName = (env.GITLAB_REVIEWER_NAME || "").toLowerCase();
+        const isReviewer = mr.reviewers?.some(r => r.username.toLowerCase() === botName);
+        if (!isReviewer) return false;
+
+        this.diffRefs = mr.diff_refs;
+
+        // Skip if this head commit has already been locked/reviewed (analogous to AzDo vote !== 0)
+        const notes = await getAllPages<GitLabNote>(`${this.mrUrl}/notes`, { sort: "asc", order_by: "created_at" });
+        const botNotes = notes.filter(note => note.author?.username.toLowerCase() === botName);
+        const headSha = mr.diff_refs.head_sha;
+        if (botNotes.some(note => findMarkedCommits(note.body, "reviewing").includes(headSha))) return false;
+
+        // A previous review exists: review only the commits pushed since then
+        const lastReviewedCommit = botNotes.flatMap(note => findMarkedCommits(note.body, "reviewed")).pop();
+        if (lastReviewedCommit === headSha) return false;
+        this.lastReviewedCommit = lastReviewedCommit;
+        return true;
+    }
+
+    async lockPR(): Promise<void> {
+        if (!this.diffRefs) throw new Error("Merge request not loaded");
+        // Post a "reviewing" note to "lock" the MR (analogous to AzDo's setPrVote(-5)).
+        // shouldProcessPR() finds the marker and returns false for concurrent/duplicate triggers.
+        const { data: note } = await gitlab.post<GitLabNote>(`${this.mrUrl}/notes`, {
+            body: `🤖 **${env.GITLAB_REVIEWER_NAME}** is reviewing this Merge Request...\n\n${formatReviewMarker("reviewing", this.diffRefs.head_sha)}`
+        });
+        this.lockNoteId = note.id;
+    }
+
+    async unlockPR(): Promise<void> {
+        // Deleting the "reviewing" note removes the marker checked by shouldProcessPR()
+        if (!this.lockNoteId) return;
+        await gitlab.delete(`${this.mrUrl}/notes/${this.lockNoteId}`);
+        this.lockNoteId = undefined;
+    }
+
+    async getChangedFiles(): Promise<FileChange[]> {
+        if (!this.diffRefs) {
+            const { data: mr } = await gitlab.get<GitLabMergeRequest>(this.mrUrl);
+            this.diffRefs = mr.diff_refs;
+        }
+
+        const diffs = await getAllPages<GitLabDiff>(`${this.mrUrl}/diffs`);
+        for (const diff of diffs) {
+            this.diffsByPath.set(diff.new_path, diff);
+        }
+
+        if (this.lastReviewedCommit) {
+            return this.getChangedFilesSince(this.lastReviewedCommit, diffs);
+        }
+
+        return diffs
+            .filter(d => !d.deleted_file)
+            .map(d => ({
+                path: d.new_path,
+                commitId: this.diffRefs!.head_sha
+            }));
+    }
+
+    /**
+     * Incremental re-review: the MR files that changed between the last reviewed commit and the head
+     */
+    private async getChangedFilesSince(lastReviewedCommit: string, mrDiffs: GitLabDiff[]): Promise<FileChange[]> {
+        const headSha = this.diffRefs!.head_sha;
+        let compare: GitLabCompare;
+        try {
+            ({ data: compare } = await gitlab.get<GitLabCompare>(`/projects/${this.projectId}/repository/compare`, {
+                params: { from: lastReviewedCommit, to: headSha }
+            }));
+        } catch (error: any) {
+            // The last reviewed commit no longer exists (e.g., force-push), review the whole MR
+            if (error.response?.status !== 404) throw error;
+            compare = { commits: [], diffs: [] };
+        }
+
+        if (compare.commits.length === 0) {
+            this.context.log(`[GitLab] No commits found since ${lastReviewedCommit}, reviewing the whole MR`);
+            this.lastReviewedCommit = undefined;
+            return mrDiffs
+                .filter(d => !d.deleted_file)
+                .map(d => ({ path: d.new_path, commitId: headSha }));
+        }
+
+        // Only files that are still part of the MR, with the diff since the last review
+        const mrPaths = new Set(mrDiffs.map(d => d.new_path));
+        const newDiffs = compare.diffs.filter(d => !d.deleted_file && mrPaths.has(d.new_path));
+        for (const diff of newDiffs) {
+            this.diffsByPath.set(diff.new_path, { ...diff, old_path: this.diffsByPath.get(diff.new_path)!.old_path });
+        }
+
+        return newDiffs.map(d => ({
+            path: d.new_path,
+            commitId: headSha
+        }));
+    }
+
+    getHeadCommit(): string | undefined {
+        return this.diffRefs?.head_sha;
+    }
+
+    async getFileContent(path: string, commitId: string): Promise<string> {
+        const res = await gitlab.get<string>(
+            `/projects/${this.projectId}/repository/files/${encodeURIComponent(path.replace(/^\/+/, ""))}/raw`,
+            {
+                params: { ref: commitId },
+                responseType: "text",
+                transformResponse: [data => data]
+            }
+        );
+        return res.data || "";
+    }
+
+    async getFileDiff(file: FileChange): Promise<string> {
+        // GitLab returns hunks only (same format as GitHub's patch); empty for binary or collapsed diffs
+        return this.diffsByPath.get(file.path)?.diff || "";
+    }
+
+    async getRepoFilePaths(commitId: string): Promise<string[]> {
+        const items = await getAllPages<GitLabTreeItem>(`/projects/${this.projectId}/repository/tree`, {
+            ref: commitId,
+            recursive: true
+        });
+        return items.filter(item => item.type === "blob").map(item => item.path);
+    }
+
+    getLastReviewedCommit(): string | undefined {
+        return this.lastReviewedCommit;
+    }
+
+    async getOpenBotThreads(): Promise<BotThread[]> {
+        const botName = (env.GITLAB_REVIEWER_NAME || "").toLowerCase();
+        const discussions = await getAllPages<GitLabDiscussion>(`${this.mrUrl}/discussions`);
+
+        return discussions
+            .filter(discussion => {
+                const first = discussion.notes[0];
+                return first?.resolvable && !first.resolved && first.position
+                    && first.author?.username.toLowerCase() === botName;
+            })
+            .map(discussion => {
+                const first = discussion.notes[0];
+                return {
+                    id: discussion.id,
+                    path: first.position!.new_path,
+                    endLine: first.position!.new_line ?? undefined,
+                    comment: first.body
+                };
+            });
+    }
+
+    async resolveThread(thread: BotThread): Promise<void> {
+        await gitlab.put(`${this.mrUrl}/discussions/${thread.id}`, null, { params: { resolved: true } });
+    }
+
+    async getExistingComments(): Promise<ExistingComment[]> {
+        const discussions = await getAllPages<GitLabDiscussion>(`${this.mrUrl}/discussions`);
+        return discussions.flatMap(discussion => discussion.notes
+            .filter(note => !note.system)
+            .map(note => ({
+                path: note.position?.new_path,
+                endLine: note.position?.new_line ?? undefined,
+                body: note.body
+            }))
+        );
+    }
+
+    async postGeneralComment(body: string): Promise<void> {
+        await gitlab.post(`${this.mrUrl}/notes`, { body });
+    }
+
+    async submitReview(comments: ReviewComment[], status: ReviewStatus, summary?: string): Promise<void> {
+        // No batch API for comments, so post them one by one before the final status
+        for (const comment of comments) {
+            await this.postComment(comment.filePath, comment.startLine, comment.endLine, comment.comment, comment.suggestion);
+        }
+        await this.setFinalStatus(status, summary);
+    }
+
+    private async postComment(path: string, startLine: number | undefined, endLine: number | undefined, comment: string, suggestion?: string): Promise<void> {
+        if (endLine && endLine > 0 && this.diffRefs) {
+            const lineInfo = startLine && startLine < endLine
+                ? `Lines ${startLine}-${endLine}`
+                : `Line ${endLine}`;
+
+            // The discussion is anchored on endLine, so the suggestion also replaces the lines above it
+            const linesAbove = startLine && startLine < endLine ? endLine - startLine : 0;
+            const body = appendSuggestion(comment, suggestion, `suggestion:-${linesAbove}+0`);
+
+            try {
+                await gitlab.post(`${this.mrUrl}/discussions`, {
+                    body: startLine && startLine < endLine ? `**${lineInfo}**\n\n${body}` : body,
+                    position: {
+                        position_type: "text",
+                        base_sha: this.diffRefs.base_sha,
+                        start_sha: this.diffRefs.start_sha,
+                        head_sha: this.diffRefs.head_sha,
+                        old_path: this.diffsByPath.get(path)?.old_path || path,
+                        new_path: path,
+                        new_line: endLine
+                    }
+                });
+            } catch (error: any) {
+                // If the line can't be positioned in the diff (400 error), fall back to a general note
+                if (error.response?.status === 400) {
+                    this.context.log(`[GitLab] ${lineInfo} for file ${path} not in diff, posting as file-level comment`);
+                    await gitlab.post(`${this.mrUrl}/notes`, {
+                        body: `**File: ${path}** (${lineInfo} not in diff, posting as file-level comment)\n\n${appendSuggestion(comment, suggestion, "")}`
+                    });
+                } else {
+                    throw error; // Re-throw other errors
+                }
+            }
+        } else {
+            // General file-level comment
+            await gitlab.post(`${this.mrUrl}/notes`, {
+                body: `**File: ${path}**\n\n${comment}`
+            });
+        }
+    }
+
+    private async setFinalStatus(status: ReviewStatus, summary?: string): Promise<void> {
+        const bodies: Record<ReviewStatus, string> = {
+            'approved': `✅ Merge Request approved by **${env.GITLAB_REVIEWER_NAME}**.`,
+            'changes_requested': `🔴 Major issues found by **${env.GITLAB_REVIEWER_NAME}**. Please address the feedback.`,
+            'commented': `🟡 Suggestions provided by **${env.GITLAB_REVIEWER_NAME}** for improvement.`,
+            'no_vote': `💬 Review by **${env.GITLAB_REVIEWER_NAME}**, see the summary.`,
+            'waiting': `⏳ **${env.GITLAB_REVIEWER_NAME}** is waiting before approving this Merge Request. See the summary.`,
+            'rejected': `⛔ Merge Request rejected by **${env.GITLAB_REVIEWER_NAME}**. Please address the feedback.`
+        };
+        const body = bodies[status];
+        await gitlab.post(`${this.mrUrl}/notes`, {
+            body: this.diffRefs ? `${body}\n\n${formatReviewMarker("reviewed", this.diffRefs.head_sha)}` : body
+        });
+
+        if (summary) {
+            await this.upsertSummaryNote(summary);
+        }
+
+        if (status === 'approved') {
+            await gitlab.post(`${this.mrUrl}/approve`, { sha: this.diffRefs?.head_sha });
+        } else {
+            try {
+                await gitlab.post(`${this.mrUrl}/unapprove`);
+            } catch (error: any) {
+                // GitLab returns 404 when the bot had not approved the MR before
+                if (error.response?.status !== 404) throw error;
+            }
+        }
+    }
+
+    /**
+     * Posts the summary as a note, or updates the one from an earlier review
+     */
+    private async upsertSummaryNote(summary: string): Promise<void> {
+        const botName = (env.GITLAB_REVIEWER_NAME || "").toLowerCase();
+        const notes = await getAllPages<GitLabNote>(`${this.mrUrl}/notes`);
+        const summaryNote = notes.find(note => note.author?.username.toLowerCase() === botName && note.body.includes(SUMMARY_MARKER));
+
+        if (summaryNote) {
+            await gitlab.put(`${this.mrUrl}/notes/${summaryNote.id}`, { body: summary });
+        } else {
+            await gitlab.post(`${this.mrUrl}/notes`, { body: summary });
+        }
+    }
+
+    getPRIdentifier(): string {
+        return `GitLab:${this.projectPath}!${this.mrIid}`;
+    }
+}
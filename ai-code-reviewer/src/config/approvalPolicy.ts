@@ -0,0 +1,165 @@
+import { parse } from "yaml";
+import { REVIEW_STATUSES, ReviewStatus } from "../interfaces/PlatformAdapter";
+import { env } from "./envVariables";
+
+/**
+ * Approval Policy
+ * Maps the finding counts of a review to its final status (AzDo vote, GitHub review event, ...).
+ * Rules are checked in order and the first one whose conditions are all met wins; `otherwise` applies when none is.
+ */
+
+/**
+ * What a rule can count: findings per severity, findings of any severity, and blocking static rule findings (red flags)
+ */
+export const APPROVAL_CONDITIONS = ['critical', 'major', 'minor', 'findings', 'blocking'] as const;
+export type ApprovalCondition = typeof APPROVAL_CONDITIONS[number];
+export type FindingCounts = Record<ApprovalCondition, number>;
+
+export interface ApprovalRule {
+    when: Partial<FindingCounts>;   // Minimum count per condition
+    status: ReviewStatus;
+}
+
+export interface ApprovalPolicy {
+    name: string;                   // Preset name, or "custom"
+    rules: ApprovalRule[];
+    otherwise: ReviewStatus;
+}
+
+const RED_FLAGS: ApprovalRule = { when: { blocking: 1 }, status: 'changes_requested' };
+const ANY_FINDING: ApprovalRule = { when: { findings: 1 }, status: 'commented' };
+
+/**
+ * Built-in policies:
+ * - default: changes requested for red flags, comment for findings, approve otherwise
+ * - strict: like default, but any critical finding also requests changes
+ * - comment_only: never approve or request changes
+ */
+export const APPROVAL_PRESETS: Record<string, ApprovalPolicy> = {
+    default: { name: 'default', rules: [RED_FLAGS, ANY_FINDING], otherwise: 'approved' },
+    strict: { name: 'strict', rules: [RED_FLAGS, { when: { critical: 1 }, status: 'changes_requested' }, ANY_FINDING], otherwise: 'approved' },
+    comment_only: { name: 'comment_only', rules: [], otherwise: 'commented' },
+};
+
+const isMapping = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function validateStatus(value: unknown): string | undefined {
+    return REVIEW_STATUSES.includes(value as ReviewStatus) ? undefined : `must be one of: ${REVIEW_STATUSES.join(', ')}`;
+}
+
+/**
+ * Validates a rule written as conditions plus a status, e.g. `{ major: 3, status: changes_requested }`
+ */
+function parseApprovalRule(value: unknown, at: string): { rule?: ApprovalRule; error?: string } {
+    if (!isMapping(value)) return { error: `${at} must be a mapping of conditions and a \`status\`` };
+
+    const when: Partial<FindingCounts> = {};
+    for (const [key, count] of Object.entries(value)) {
+        if (key === 'status') continue;
+        if (!APPROVAL_CONDITIONS.includes(key as ApprovalCondition)) {
+            return { error: `${at} has an unknown condition \`${key}\` (supported: ${APPROVAL_CONDITIONS.join(', ')})` };
+        }
+        if (!Number.isInteger(count) || (count as number) < 1) return { error: `${at} \`${key}\` must be a positive integer` };
+        when[key as ApprovalCondition] = count as number;
+    }
+    if (Object.keys(when).length === 0) return { error: `${at} needs at least one condition (${APPROVAL_CONDITIONS.join(', ')})` };
+
+    const statusError = validateStatus(value.status);
+    if (statusError) return { error: `${at} \`status\` ${statusError}` };
+    return { rule: { when, status: value.status as ReviewStatus } };
+}
+
+/**
+ * Parses an approval policy: a preset name, or a mapping with `rules` (checked in order) and `otherwise` (default: approved).
+ * Errors are phrased to follow the setting name, e.g. "`approval` rule 2 ...".
+ */
+export function parseApprovalPolicy(value: unknown): { policy?: ApprovalPolicy; error?: string } {
+    if (typeof value === 'string') {
+        const preset = APPROVAL_PRESETS[value.trim()];
+        return preset ? { policy: preset } : { error: `must be one of: ${Object.keys(APPROVAL_PRESETS).join(', ')}, or a mapping with \`rules\`` };
+    }
+    if (!isMapping(value)) return { error: `must be a preset name or a mapping with \`rules\` and \`otherwise\`` };
+
+    const unknownKey = Object.keys(value).find(key => key !== 'rules' && key !== 'otherwise');
+    if (unknownKey) return { error: `has an unknown setting \`${unknownKey}\` (supported: rules, otherwise)` };
+    if (!Array.isArray(value.rules)) return { error: '`rules` must be a list of rules' };
+
+    const rules: ApprovalRule[] = [];
+    for (const [index, item] of value.rules.entries()) {
+        const { rule, error } = parseApprovalRule(item, `rule ${index + 1}`);
+        if (error) return { error };
+        rules.push(rule!);
+    }
+
+    const otherwise = value.otherwise ?? 'approved';
+    const otherwiseError = validateStatus(otherwise);
+    if (otherwiseError) return { error: `\`otherwise\` ${otherwiseError}` };
+
+    return { policy: { name: 'custom', rules, otherwise: otherwise as ReviewStatus } };
+}
+
+/**
+ * Policy from APPROVAL_POLICY (a preset name, or a policy as YAML/JSON), falling back to the default preset
+ */
+function loadEnvApprovalPolicy(): ApprovalPolicy {
+    const text = env.APPROVAL_POLICY?.trim();
+    if (!text) return APPROVAL_PRESETS.default;
+
+    let value: unknown = text;
+    if (!APPROVAL_PRESETS[text]) {
+        try {
+            value = parse(text);
+        } catch {
+            // Reported as an invalid preset name below
+        }
+    }
+
+    const { policy, error } = parseApprovalPolicy(value);
+    if (error) console.warn(`[CONFIG] Invalid APPROVAL_POLICY, using the default policy: APPROVAL_POLICY ${error}`);
+    return policy || APPROVAL_PRESETS.default;
+}
+
+export const DEFAULT_APPROVAL_POLICY = loadEnvApprovalPolicy();
+
+/**
+ * Counts the findings of a review. Unknown severities count as minor.
+ */
+export function countFindings(findings: { severity: string }[], blockingCount: number): FindingCounts {
+    const severityCount = (severity: string) => findings.filter(f =>
+        severity === 'minor' ? !['critical', 'major'].includes(f.severity) : f.severity === severity
+    ).length;
+
+    return {
+        critical: severityCount('critical'),
+        major: severityCount('major'),
+        minor: severityCount('minor'),
+        findings: findings.length,
+        blocking: blockingCount,
+    };
+}
+
+/**
+ * Describes the conditions of a rule for the review summary, e.g. "≥ 3 major"
+ */
+export function describeApprovalRule(rule: ApprovalRule): string {
+    const labels: Record<ApprovalCondition, string> = {
+        critical: 'critical',
+        major: 'major',
+        minor: 'minor',
+        findings: 'findings',
+        blocking: 'blocking rule findings',
+    };
+    return Object.entries(rule.when).map(([key, count]) => `≥ ${count} ${labels[key as ApprovalCondition]}`).join(' and ');
+}
+
+/**
+ * Applies the policy to the finding counts. Returns the status and the description of the rule that chose it.
+ */
+export function applyApprovalPolicy(policy: ApprovalPolicy, counts: FindingCounts): { status: ReviewStatus; rule: string } {
+    const rule = policy.rules.find(r =>
+        Object.entries(r.when).every(([key, min]) => counts[key as ApprovalCondition] >= (min as number))
+    );
+    if (rule) return { status: rule.status, rule: describeApprovalRule(rule) };
+    return { status: policy.otherwise, rule: policy.rules.length > 0 ? 'no rule matched' : 'always' };
+}
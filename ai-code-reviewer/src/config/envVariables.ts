@@ -7,36 +7,74 @@ export const env = {
     // Azure DevOps Configuration
     AZDO_ORG_URL: process.env.AZDO_ORG_URL,
     AZDO_PAT: process.env.AZDO_PAT,
+    AZDO_WEBHOOK_SECRET: process.env.AZDO_WEBHOOK_SECRET,
+    AZDO_WEBHOOK_USERNAME: process.env.AZDO_WEBHOOK_USERNAME,
 
     // AI Configuration
     AI_PROVIDER: process.env.AI_PROVIDER.toLowerCase(),
     AI_API_KEY: process.env.AI_API_KEY,
     AI_MODEL: process.env.AI_MODEL,
+    AI_BASE_URL: process.env.AI_BASE_URL,               // Endpoint of AI_PROVIDER: Azure OpenAI resource, OpenAI-compatible server, gateway
+    AZURE_OPENAI_API_VERSION: process.env.AZURE_OPENAI_API_VERSION,
+    OPENAI_API_KEY: process.env.OPENAI_API_KEY,         // Per-provider keys, for personas using another provider
+    ANTHROPIC_API_KEY: process.env.ANTHROPIC_API_KEY,
+    GOOGLE_API_KEY: process.env.GOOGLE_API_KEY,
+    AZURE_OPENAI_API_KEY: process.env.AZURE_OPENAI_API_KEY,
+    REVIEW_PERSONAS: process.env.REVIEW_PERSONAS,
 
     // Reviewer Configuration
     AZDO_REVIEWER_NAME: process.env.AZDO_REVIEWER_NAME,
     GITHUB_REVIEWER_NAME: process.env.GITHUB_REVIEWER_NAME,
+    GITLAB_REVIEWER_NAME: process.env.GITLAB_REVIEWER_NAME,
+    BITBUCKET_REVIEWER_NAME: process.env.BITBUCKET_REVIEWER_NAME,
     AI_REVIEW_GUIDELINES: process.env.AI_REVIEW_GUIDELINES,
     ENABLE_CODE_CLEANING: process.env.ENABLE_CODE_CLEANING,
     MAX_REVIEW_COMMENTS: process.env.MAX_REVIEW_COMMENTS,
+    APPROVAL_POLICY: process.env.APPROVAL_POLICY,
+    INCOMPLETE_REVIEW_POLICY: process.env.INCOMPLETE_REVIEW_POLICY?.toLowerCase(),
+
+    // Context Configuration
+    CONTEXT_MODE: process.env.CONTEXT_MODE?.toLowerCase(),
+    MAX_BATCH_TOKENS: process.env.MAX_BATCH_TOKENS,
+    MAX_CONTEXT_FILES: process.env.MAX_CONTEXT_FILES,
+    MAX_CONTEXT_TOKENS: process.env.MAX_CONTEXT_TOKENS,
 
     // GitHub App Configuration
     GITHUB_APP_ID: process.env.GITHUB_APP_ID,
     GITHUB_APP_PRIVATE_KEY: process.env.GITHUB_APP_PRIVATE_KEY?.replace(/\\n/g, '\n'),
+    GITHUB_WEBHOOK_SECRET: process.env.GITHUB_WEBHOOK_SECRET,
+
+    // GitLab Configuration
+    GITLAB_URL: process.env.GITLAB_URL,
+    GITLAB_TOKEN: process.env.GITLAB_TOKEN,
+    GITLAB_WEBHOOK_SECRET: process.env.GITLAB_WEBHOOK_SECRET,
+
+    // Bitbucket Configuration (BITBUCKET_URL is only set for Bitbucket Data Center)
+    BITBUCKET_URL: process.env.BITBUCKET_URL,
+    BITBUCKET_USERNAME: process.env.BITBUCKET_USERNAME,
+    BITBUCKET_TOKEN: process.env.BITBUCKET_TOKEN,
+    BITBUCKET_WEBHOOK_SECRET: process.env.BITBUCKET_WEBHOOK_SECRET,
 };
 
 // Validate critical environment variables
 const missingVars = [];
-if (!env.AI_API_KEY) missingVars.push("AI_API_KEY");
+if (!env.AI_API_KEY && !env.AI_BASE_URL) missingVars.push("AI_API_KEY");   // Local servers may need no key
 
 // Platform-specific validation
 const hasAzDo = !!(env.AZDO_ORG_URL && env.AZDO_PAT);
 const hasGitHub = !!(env.GITHUB_APP_ID && env.GITHUB_APP_PRIVATE_KEY);
+const hasGitLab = !!(env.GITLAB_TOKEN && env.GITLAB_WEBHOOK_SECRET);
+const hasBitbucket = !!env.BITBUCKET_TOKEN;
 
-if (!hasAzDo && !hasGitHub) {
-    missingVars.push("Platform Config (AzDo or GitHub)");
+if (!hasAzDo && !hasGitHub && !hasGitLab && !hasBitbucket) {
+    missingVars.push("Platform Config (AzDo, GitHub, GitLab or Bitbucket)");
 }
 
+// Webhooks are rejected without a secret to verify them against
+if (hasGitHub && !env.GITHUB_WEBHOOK_SECRET) missingVars.push("GITHUB_WEBHOOK_SECRET");
+if (hasAzDo && !env.AZDO_WEBHOOK_SECRET) missingVars.push("AZDO_WEBHOOK_SECRET");
+if (hasBitbucket && !env.BITBUCKET_WEBHOOK_SECRET) missingVars.push("BITBUCKET_WEBHOOK_SECRET");
+
 if (missingVars.length > 0) {
     console.warn(`[CONFIG] Missing critical environment variables: ${missingVars.join(", ")}`);
 }
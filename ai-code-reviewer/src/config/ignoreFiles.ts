@@ -1,5 +1,7 @@
+import { Minimatch } from "minimatch";
+
 /**
- * List of files and extensions to ignore during the code review process.
+ * Default gitignore-style patterns of files to ignore during the code review process.
  * Includes metadata, lock files, build artifacts, and tool config for common ecosystems.
  */
 export const ignoredFiles = [
@@ -10,10 +12,10 @@ export const ignoredFiles = [
     'yarn.lock',
     'pnpm-lock.yaml',
     'bun.lockb',               // Bun lock file
-    'node_modules',
-    '.npmrc',
-    '.nvmrc',                  // Node version manager
-    '.node-version',
+    'node_modules/',
+    '*.npmrc',
+    '*.nvmrc',                 // Node version manager
+    '*.node-version',
 
     // --- TypeScript ---
     'tsconfig.json',
@@ -21,30 +23,30 @@ export const ignoredFiles = [
     'tsconfig.spec.json',
     'tsconfig.lib.json',
     'tsconfig.build.json',
-    '.tsbuildinfo',            // TypeScript incremental build cache
+    '*.tsbuildinfo',           // TypeScript incremental build cache
 
     // --- Linters & Formatters ---
-    '.eslintrc',
-    '.eslintrc.js',
-    '.eslintrc.cjs',
-    '.eslintrc.mjs',
-    '.eslintrc.json',
-    '.eslintrc.yml',
-    '.eslintrc.yaml',
+    '*.eslintrc',
+    '*.eslintrc.js',
+    '*.eslintrc.cjs',
+    '*.eslintrc.mjs',
+    '*.eslintrc.json',
+    '*.eslintrc.yml',
+    '*.eslintrc.yaml',
     'eslint.config.js',
     'eslint.config.mjs',
     'eslint.config.cjs',
-    '.prettierrc',
-    '.prettierrc.js',
-    '.prettierrc.cjs',
-    '.prettierrc.json',
-    '.prettierrc.yml',
-    '.prettierrc.yaml',
+    '*.prettierrc',
+    '*.prettierrc.js',
+    '*.prettierrc.cjs',
+    '*.prettierrc.json',
+    '*.prettierrc.yml',
+    '*.prettierrc.yaml',
     'prettier.config.js',
     'prettier.config.cjs',
-    '.editorconfig',
-    '.stylelintrc',
-    '.stylelintrc.json',
+    '*.editorconfig',
+    '*.stylelintrc',
+    '*.stylelintrc.json',
     'stylelint.config.js',
 
     // --- Bundlers & Build Tools ---
@@ -59,10 +61,10 @@ export const ignoredFiles = [
     'esbuild.config.js',
     'esbuild.config.ts',
     'swc.config.js',
-    '.swcrc',
-    '.babelrc',
-    '.babelrc.js',
-    '.babelrc.json',
+    '*.swcrc',
+    '*.babelrc',
+    '*.babelrc.js',
+    '*.babelrc.json',
     'babel.config.js',
     'babel.config.cjs',
     'babel.config.ts',
@@ -86,7 +88,7 @@ export const ignoredFiles = [
     'tailwind.config.cjs',
     'postcss.config.js',
     'postcss.config.cjs',
-    '.browserslistrc',
+    '*.browserslistrc',
 
     // --- React (Next.js) ---
     'next.config.js',
@@ -96,7 +98,7 @@ export const ignoredFiles = [
 
     // --- Angular ---
     'angular.json',
-    '.angular',
+    '.angular/',
     'karma.conf.js',           // Angular default test runner config
 
     // --- Monorepo & Workspace Tools ---
@@ -104,14 +106,14 @@ export const ignoredFiles = [
     'workspace.json',
     'lerna.json',
     'turbo.json',
-    '.turbo',
+    '.turbo/',
     'rush.json',
 
     // --- Minified / Generated Assets ---
-    '.min.js',
-    '.min.css',
-    '.map',                    // Source maps
-    '.chunk.js',
+    '*.min.js',
+    '*.min.css',
+    '*.map',                   // Source maps
+    '*.chunk.js',
 
     // --- Python ---
     'requirements.txt',
@@ -128,107 +130,188 @@ export const ignoredFiles = [
     'MANIFEST.in',
     'tox.ini',
     'pytest.ini',
-    '.pytest.ini',
-    '.flake8',
+    '*.pytest.ini',
+    '*.flake8',
     'mypy.ini',
-    '.mypy.ini',
-    '.python-version',         // pyenv version file
-    '.pyc',
-    '.pyo',
-    '__pycache__',
+    '*.mypy.ini',
+    '*.python-version',        // pyenv version file
+    '*.pyc',
+    '*.pyo',
+    '__pycache__/',
 
     // --- C# / .NET ---
-    '.csproj',
-    '.vbproj',
-    '.fsproj',
-    '.sln',
-    '.user',
-    '.suo',
+    '*.csproj',
+    '*.vbproj',
+    '*.fsproj',
+    '*.sln',
+    '*.user',
+    '*.suo',
     'App.config',
     'packages.config',
     'Web.config',
-    '.nupkg',
+    '*.nupkg',
     'NuGet.Config',
     'nuget.config',
     'global.json',             // .NET SDK version pin
     'Directory.Build.props',
     'Directory.Build.targets',
     'Directory.Packages.props',
-    '.props',
-    '.targets',
+    '*.props',
+    '*.targets',
 
     // --- C++ ---
-    '.vcxproj',
-    '.filters',
-    '.o',
-    '.obj',
-    '.out',
-    '.pdb',
-    '.lib',
-    '.a',
+    '*.vcxproj',
+    '*.filters',
+    '*.o',
+    '*.obj',
+    '*.out',
+    '*.pdb',
+    '*.lib',
+    '*.a',
 
     // --- General Config & Metadata ---
-    '.env',
+    '*.env',
     'env.example',
-    '.env.example',
-    '.env.local',
-    '.env.development',
-    '.env.production',
-    '.env.test',
-    '.gitignore',
-    '.gitattributes',
-    '.funcignore',
-    '.dockerignore',
+    '*.env.example',
+    '*.env.local',
+    '*.env.development',
+    '*.env.production',
+    '*.env.test',
+    '*.gitignore',
+    '*.gitattributes',
+    '*.funcignore',
+    '*.dockerignore',
     'Dockerfile',
     'docker-compose.yml',
     'docker-compose.yaml',
     'LICENSE',
-    '.DS_Store',
+    '*.DS_Store',
 
     // --- Data, Documentation & Non-Code Files ---
-    '.json',                   // Config / sample data (specific configs already listed above)
-    '.txt',
-    '.text',
-    '.md',                     // Markdown documentation
-    '.mdx',
-    '.csv',
-    '.tsv',
-    '.xml',
-    '.yaml',
-    '.yml',
-    '.toml',
-    '.ini',
-    '.cfg',
-    '.log',
+    '*.json',                  // Config / sample data (specific configs already listed above)
+    '*.txt',
+    '*.text',
+    '*.md',                    // Markdown documentation
+    '*.mdx',
+    '*.csv',
+    '*.tsv',
+    '*.xml',
+    '*.yaml',
+    '*.yml',
+    '*.toml',
+    '*.ini',
+    '*.cfg',
+    '*.log',
 
     // --- Images, Fonts & Media ---
-    '.png',
-    '.jpg',
-    '.jpeg',
-    '.gif',
-    '.svg',
-    '.ico',
-    '.webp',
-    '.bmp',
-    '.woff',
-    '.woff2',
-    '.ttf',
-    '.eot',
-    '.otf',
-    '.mp4',
-    '.mp3',
-    '.wav',
-    '.pdf',
+    '*.png',
+    '*.jpg',
+    '*.jpeg',
+    '*.gif',
+    '*.svg',
+    '*.ico',
+    '*.webp',
+    '*.bmp',
+    '*.woff',
+    '*.woff2',
+    '*.ttf',
+    '*.eot',
+    '*.otf',
+    '*.mp4',
+    '*.mp3',
+    '*.wav',
+    '*.pdf',
 ];
 
 /**
- * Checks if a given file path should be ignored based on its name or extension.
+ * A gitignore-style rule, remembering where it came from so skip decisions can be explained
+ */
+export interface IgnoreRule {
+    text: string;           // The rule as written (e.g., "!vendor/keep.ts")
+    source: string;         // e.g., "built-in list", ".anna.yml", ".gitattributes"
+    negated: boolean;       // "!" rules re-include files ignored by earlier rules
+    dirOnly: boolean;       // Trailing "/": only matches directories
+    anchored: boolean;      // Contains a "/": matched from the repository root instead of at any depth
+    matcher: Minimatch;
+}
+
+/**
+ * Parses gitignore-style patterns (supports "!", "**", "#" comments, leading and trailing "/")
+ */
+export function parseIgnoreRules(patterns: string[], source: string): IgnoreRule[] {
+    const rules: IgnoreRule[] = [];
+    for (const line of patterns) {
+        const text = line.trim();
+        if (!text || text.startsWith('#')) continue;
+
+        const negated = text.startsWith('!');
+        let pattern = (negated ? text.slice(1) : text).replace(/^\\/, '');   // "\!" and "\#" escape a literal first character
+        const dirOnly = pattern.endsWith('/');
+        pattern = pattern.replace(/\/+$/, '');
+        const anchored = pattern.includes('/');
+        pattern = pattern.replace(/^\/+/, '');
+        if (!pattern) continue;
+
+        // "!" and "#" were handled above, so minimatch must not read them as negation or comment
+        rules.push({ text, source, negated, dirOnly, anchored, matcher: new Minimatch(pattern, { dot: true, nocase: true, nocomment: true, nonegate: true }) });
+    }
+    return rules;
+}
+
+/**
+ * Builds ignore rules from the `linguist-generated` and `linguist-vendored` attributes of a `.gitattributes` file.
+ * Unsetting an attribute (e.g., "-linguist-generated" or "linguist-vendored=false") re-includes the files.
+ */
+export function parseGitAttributes(text: string): IgnoreRule[] {
+    const rules: IgnoreRule[] = [];
+    for (const line of (text || '').split(/\r?\n/)) {
+        const [pattern, ...attributes] = line.trim().split(/\s+/);
+        if (!pattern || pattern.startsWith('#')) continue;
+
+        for (const attribute of attributes) {
+            const match = attribute.match(/^(-?)linguist-(generated|vendored)(?:=(\w+))?$/);
+            if (!match) continue;
+
+            const isSet = match[1] !== '-' && match[3]?.toLowerCase() !== 'false';
+            const [rule] = parseIgnoreRules([isSet ? pattern : `!${pattern}`], '.gitattributes');
+            if (rule) rules.push({ ...rule, text: `${pattern} ${attribute}` });
+        }
+    }
+    return rules;
+}
+
+export const DEFAULT_IGNORE_RULES = parseIgnoreRules(ignoredFiles, 'built-in list');
+
+/**
+ * Checks one rule against a file path. Like gitignore, a rule also matches every file inside a matching directory.
+ */
+function matchesIgnoreRule(path: string, rule: IgnoreRule): boolean {
+    const parts = path.replace(/^\/+/, '').split('/');
+    for (let i = 1; i <= parts.length; i++) {
+        const isDirectory = i < parts.length;
+        if (rule.dirOnly && !isDirectory) continue;
+
+        const candidate = rule.anchored ? parts.slice(0, i).join('/') : parts[i - 1];
+        if (rule.matcher.match(candidate)) return true;
+    }
+    return false;
+}
+
+/**
+ * Returns the rule that decides whether a file is ignored: the last matching rule, as in gitignore.
+ * The file is ignored if a rule is returned and it is not negated.
+ */
+export function findIgnoreRule(path: string, rules: IgnoreRule[] = DEFAULT_IGNORE_RULES): IgnoreRule | undefined {
+    for (let i = rules.length - 1; i >= 0; i--) {
+        if (matchesIgnoreRule(path, rules[i])) return rules[i];
+    }
+    return undefined;
+}
+
+/**
+ * Checks if a given file path should be ignored by the given rules (the built-in list by default).
  */
-export function shouldIgnoreFile(path: string): boolean {
-    const fileName = path.split('/').pop()?.toLowerCase() || '';
-    return ignoredFiles.some(ignored => {
-        const lowerIgnored = ignored.toLowerCase();
-        // Check if it's an exact match or if the file ends with the extension (e.g., .pyc)
-        return fileName === lowerIgnored || fileName.endsWith(lowerIgnored);
-    });
+export function shouldIgnoreFile(path: string, rules: IgnoreRule[] = DEFAULT_IGNORE_RULES): boolean {
+    const rule = findIgnoreRule(path, rules);
+    return !!rule && !rule.negated;
 }
@@ -0,0 +1,210 @@
+import { parse } from "yaml";
+import { minimatch } from "minimatch";
+import { env } from "./envVariables";
+import { DEFAULT_MAX_FILE_LINES, RuleOverrides, STATIC_RULES } from "../rules";
+import { ApprovalPolicy, DEFAULT_APPROVAL_POLICY, parseApprovalPolicy } from "./approvalPolicy";
+import { DEFAULT_REVIEW_PERSONAS, parseReviewPersonas } from "./reviewPersonas";
+import { ReviewerPersona } from "../prompts/reviewPrompts";
+
+/**
+ * Per-Repository Configuration
+ * Optional `.anna.yml` in the repository root that overrides the function app's settings for that repository.
+ */
+
+export const REPO_CONFIG_FILE = '.anna.yml';
+
+export const SEVERITY_LEVELS = ['critical', 'major', 'minor'] as const;
+export type Severity = typeof SEVERITY_LEVELS[number];
+
+/**
+ * What to do when some files could not be reviewed (the AI request failed or its response could not be parsed):
+ * - wait: leave the status as "waiting" (AzDo vote -5, no approval elsewhere)
+ * - comment: post the findings as a comment, without approving
+ * - retry: fail the job so the review queue retries it later; the last attempt falls back to wait
+ * The approval policy's status still applies when it is stricter, so e.g. red flags still request changes
+ * (unless the approval policy never requests changes, like comment_only).
+ */
+export const INCOMPLETE_REVIEW_POLICIES = ['wait', 'comment', 'retry'] as const;
+export type IncompleteReviewPolicy = typeof INCOMPLETE_REVIEW_POLICIES[number];
+
+export interface RepoConfig {
+    ignore: string[];           // Gitignore-style patterns of files to skip, after the built-in ignore list
+    include: string[];          // If set, only files matching one of these globs are reviewed
+    maxComments?: number;       // Overrides MAX_REVIEW_COMMENTS
+    maxFileLines: number;       // Shorthand for rules.file_length.max
+    minSeverity: Severity;      // Findings below this severity are not posted
+    guidelines?: string;        // Overrides AI_REVIEW_GUIDELINES
+    pathGuidelines: Record<string, string>;    // Glob -> guidelines file, for files matching the glob
+    model?: string;             // Overrides AI_MODEL (same provider)
+    personas: ReviewerPersona[];    // Overrides REVIEW_PERSONAS
+    approval: ApprovalPolicy;   // Overrides APPROVAL_POLICY
+    incompleteReview: IncompleteReviewPolicy;  // Overrides INCOMPLETE_REVIEW_POLICY
+    rules: RuleOverrides;       // Static rule id -> settings overriding its defaults
+}
+
+type Validator = (value: unknown) => string | undefined;
+
+const stringList: Validator = value =>
+    Array.isArray(value) && value.every(item => typeof item === 'string' && item.trim().length > 0)
+        ? undefined
+        : 'must be a list of non-empty strings';
+
+const nonEmptyString: Validator = value =>
+    typeof value === 'string' && value.trim().length > 0 ? undefined : 'must be a non-empty string';
+
+const positiveInteger: Validator = value =>
+    Number.isInteger(value) && (value as number) > 0 ? undefined : 'must be a positive integer';
+
+const stringMap: Validator = value =>
+    typeof value === 'object' && value !== null && !Array.isArray(value)
+        && Object.values(value).every(item => typeof item === 'string' && item.trim().length > 0)
+        ? undefined
+        : 'must be a mapping of globs to file paths';
+
+const oneOf = (options: readonly string[]): Validator => value =>
+    options.includes(value as string) ? undefined : `must be one of: ${options.join(', ')}`;
+
+const boolean: Validator = value => typeof value === 'boolean' ? undefined : 'must be true or false';
+
+const thresholdMap: Validator = value =>
+    typeof value === 'object' && value !== null && !Array.isArray(value)
+        && Object.values(value).every(item => positiveInteger(item) === undefined)
+        ? undefined
+        : 'must be a mapping of languages to positive integers';
+
+const isMapping = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Schema of a rule's settings: setting name -> validator. `max` and `languages` only apply to rules with a threshold.
+ */
+const RULE_SETTINGS_SCHEMA: Record<string, Validator> = {
+    enabled: boolean,
+    severity: oneOf(['critical', 'major']),
+    blocking: boolean,
+    max: positiveInteger,
+    languages: thresholdMap,
+};
+
+const ruleOverrides: Validator = value => {
+    if (!isMapping(value)) return 'must be a mapping of rule names to settings';
+
+    for (const [id, settings] of Object.entries(value)) {
+        const rule = STATIC_RULES.find(r => r.id === id);
+        if (!rule) return `has an unknown rule \`${id}\` (supported: ${STATIC_RULES.map(r => r.id).join(', ')})`;
+        if (!isMapping(settings)) return `entry \`${id}\` must be a mapping of settings`;
+
+        for (const [key, setting] of Object.entries(settings)) {
+            const validate = RULE_SETTINGS_SCHEMA[key];
+            if (!validate) return `entry \`${id}\` has an unknown setting \`${key}\` (supported: ${Object.keys(RULE_SETTINGS_SCHEMA).join(', ')})`;
+            if ((key === 'max' || key === 'languages') && rule.defaults.max === undefined) {
+                return `entry \`${id}.${key}\` is not supported, the rule has no threshold`;
+            }
+            const error = validate(setting);
+            if (error) return `entry \`${id}.${key}\` ${error}`;
+        }
+    }
+    return undefined;
+};
+
+const approvalPolicy: Validator = value => parseApprovalPolicy(value).error;
+
+const reviewPersonas: Validator = value => parseReviewPersonas(value).error;
+
+/**
+ * Schema of `.anna.yml`: setting name -> RepoConfig field, its validator and, if the field is not the raw value, its conversion
+ */
+const REPO_CONFIG_SCHEMA: Record<string, { field: keyof RepoConfig; validate: Validator; convert?: (value: unknown) => unknown }> = {
+    ignore: { field: 'ignore', validate: stringList },
+    include: { field: 'include', validate: stringList },
+    max_comments: { field: 'maxComments', validate: positiveInteger },
+    max_file_lines: { field: 'maxFileLines', validate: positiveInteger },
+    min_severity: { field: 'minSeverity', validate: oneOf(SEVERITY_LEVELS) },
+    guidelines: { field: 'guidelines', validate: nonEmptyString },
+    path_guidelines: { field: 'pathGuidelines', validate: stringMap },
+    model: { field: 'model', validate: nonEmptyString },
+    personas: { field: 'personas', validate: reviewPersonas, convert: value => parseReviewPersonas(value).personas },
+    approval: { field: 'approval', validate: approvalPolicy, convert: value => parseApprovalPolicy(value).policy },
+    incomplete_review: { field: 'incompleteReview', validate: oneOf(INCOMPLETE_REVIEW_POLICIES) },
+    rules: { field: 'rules', validate: ruleOverrides },
+};
+
+/**
+ * Settings used when the repository has no (valid) `.anna.yml`, taken from the environment
+ */
+export function getDefaultRepoConfig(): RepoConfig {
+    return {
+        ignore: [],
+        include: [],
+        maxComments: env.MAX_REVIEW_COMMENTS ? parseInt(env.MAX_REVIEW_COMMENTS, 10) : undefined,
+        maxFileLines: DEFAULT_MAX_FILE_LINES,
+        minSeverity: 'minor',
+        guidelines: env.AI_REVIEW_GUIDELINES || undefined,
+        pathGuidelines: {},
+        model: env.AI_MODEL,
+        personas: DEFAULT_REVIEW_PERSONAS,
+        approval: DEFAULT_APPROVAL_POLICY,
+        incompleteReview: INCOMPLETE_REVIEW_POLICIES.find(policy => policy === env.INCOMPLETE_REVIEW_POLICY) || 'wait',
+        rules: {},
+    };
+}
+
+/**
+ * Parses and validates the content of `.anna.yml`.
+ * If there are any errors, the defaults are returned together with the errors so nothing is applied partially.
+ */
+export function parseRepoConfig(text: string): { config: RepoConfig; errors: string[] } {
+    const defaults = getDefaultRepoConfig();
+
+    let raw: unknown;
+    try {
+        raw = parse(text);
+    } catch (err: any) {
+        return { config: defaults, errors: [`Invalid YAML: ${err.message.split('\n')[0]}`] };
+    }
+
+    if (raw === null || raw === undefined) return { config: defaults, errors: [] };   // Empty file
+    if (typeof raw !== 'object' || Array.isArray(raw)) {
+        return { config: defaults, errors: ['The file must contain a mapping of settings'] };
+    }
+
+    const errors: string[] = [];
+    const overrides: Partial<Record<keyof RepoConfig, unknown>> = {};
+    for (const [key, value] of Object.entries(raw)) {
+        const setting = REPO_CONFIG_SCHEMA[key];
+        if (!setting) {
+            errors.push(`Unknown setting \`${key}\` (supported: ${Object.keys(REPO_CONFIG_SCHEMA).join(', ')})`);
+            continue;
+        }
+        const error = setting.validate(value);
+        if (error) {
+            errors.push(`\`${key}\` ${error}`);
+        } else if (setting.convert) {
+            overrides[setting.field] = setting.convert(value);
+        } else {
+            overrides[setting.field] = typeof value === 'string' ? value.trim() : value;
+        }
+    }
+
+    if (errors.length > 0) return { config: defaults, errors };
+    return { config: { ...defaults, ...overrides } as RepoConfig, errors: [] };
+}
+
+/**
+ * Builds the PR comment explaining why `.anna.yml` was not applied
+ */
+export function formatRepoConfigErrors(errors: string[]): string {
+    return [
+        `⚠️ **\`${REPO_CONFIG_FILE}\` is invalid**, so this review used the default settings. Please fix the following:`,
+        '',
+        ...errors.map(error => `- ${error}`)
+    ].join('\n');
+}
+
+/**
+ * Checks a file path against repository-relative globs (patterns without a slash match the file name anywhere)
+ */
+export function matchesAnyGlob(path: string, globs: string[]): boolean {
+    const relativePath = path.replace(/^\/+/, '');
+    return globs.some(glob => minimatch(relativePath, glob.replace(/^\/+/, ''), { dot: true, matchBase: true }));
+}
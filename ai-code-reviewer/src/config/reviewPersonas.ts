@@ -0,0 +1,94 @@
+import { BUILTIN_PERSONAS, DEFAULT_PERSONA, ReviewerPersona } from "../prompts/reviewPrompts";
+import { getAIProviderNames } from "../providers";
+import { env } from "./envVariables";
+
+/**
+ * Reviewer Personas
+ * Which personas review each pull request: built-in ones by id, with optional overrides, and custom ones.
+ */
+
+/**
+ * Setting name of a persona entry -> ReviewerPersona field
+ */
+const PERSONA_SETTINGS: Record<string, keyof ReviewerPersona> = {
+    id: 'id',
+    name: 'name',
+    system_prompt: 'systemPrompt',
+    focus: 'focus',
+    provider: 'provider',
+    model: 'model',
+};
+
+const isMapping = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Parses one persona entry: a built-in persona id, or a mapping that overrides a built-in persona or defines a new one
+ */
+function parsePersona(value: unknown, at: string): { persona?: ReviewerPersona; error?: string } {
+    const builtinIds = BUILTIN_PERSONAS.map(p => p.id).join(', ');
+
+    if (typeof value === 'string') {
+        const persona = BUILTIN_PERSONAS.find(p => p.id === value.trim());
+        return persona ? { persona } : { error: `${at} is not a built-in persona (supported: ${builtinIds})` };
+    }
+    if (!isMapping(value)) return { error: `${at} must be a persona id or a mapping of persona settings` };
+
+    const settings: Partial<ReviewerPersona> = {};
+    for (const [key, setting] of Object.entries(value)) {
+        const field = PERSONA_SETTINGS[key];
+        if (!field) return { error: `${at} has an unknown setting \`${key}\` (supported: ${Object.keys(PERSONA_SETTINGS).join(', ')})` };
+        if (typeof setting !== 'string' || setting.trim() === '') return { error: `${at} \`${key}\` must be a non-empty string` };
+        settings[field] = setting.trim();
+    }
+
+    if (!settings.id) return { error: `${at} needs an \`id\`` };
+    if (settings.provider && !getAIProviderNames().includes(settings.provider.toLowerCase())) {
+        return { error: `${at} \`provider\` must be one of: ${getAIProviderNames().join(', ')}` };
+    }
+    if (settings.provider && !settings.model) return { error: `${at} sets \`provider\` without a \`model\` for it` };
+
+    const builtin = BUILTIN_PERSONAS.find(p => p.id === settings.id);
+    if (builtin) return { persona: { ...builtin, ...settings } };
+
+    if (!settings.focus) return { error: `${at} defines a new persona \`${settings.id}\` without a \`focus\` (built-in: ${builtinIds})` };
+    const name = settings.name || settings.id;
+    return {
+        persona: {
+            systemPrompt: `You are a ${name} performing a pull request review.`,
+            ...settings,
+            id: settings.id,
+            name,
+        }
+    };
+}
+
+/**
+ * Parses the list of personas. Errors are phrased to follow the setting name, e.g. "`personas` entry 2 ...".
+ */
+export function parseReviewPersonas(value: unknown): { personas?: ReviewerPersona[]; error?: string } {
+    if (!Array.isArray(value) || value.length === 0) return { error: 'must be a non-empty list of personas' };
+
+    const personas: ReviewerPersona[] = [];
+    for (const [index, item] of value.entries()) {
+        const { persona, error } = parsePersona(item, `entry ${index + 1}`);
+        if (error) return { error };
+        if (personas.some(p => p.id === persona!.id)) return { error: `has persona \`${persona!.id}\` more than once` };
+        personas.push(persona!);
+    }
+    return { personas };
+}
+
+/**
+ * Personas from REVIEW_PERSONAS (comma-separated built-in ids), falling back to the default persona
+ */
+function loadEnvReviewPersonas(): ReviewerPersona[] {
+    const ids = (env.REVIEW_PERSONAS || '').split(',').map(id => id.trim()).filter(Boolean);
+    if (ids.length === 0) return [DEFAULT_PERSONA];
+
+    const { personas, error } = parseReviewPersonas(ids);
+    if (error) console.warn(`[CONFIG] Invalid REVIEW_PERSONAS, using the default persona: REVIEW_PERSONAS ${error}`);
+    return personas || [DEFAULT_PERSONA];
+}
+
+export const DEFAULT_REVIEW_PERSONAS = loadEnvReviewPersonas();
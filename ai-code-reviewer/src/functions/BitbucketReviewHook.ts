@@ -0,0 +1,75 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
+import { BitbucketCloudWebhookPayload, BitbucketServerRef, BitbucketServerWebhookPayload, BitbucketWebhookPayload } from "../types/bitbucket";
+import { isBitbucketCloud } from "../utils/bitbucketClient";
+import { BitbucketAdapter } from "../adapters/BitbucketAdapter";
+import { enqueueReviewJob, reviewQueueOutput } from "../utils/reviewQueue";
+import { verifyBitbucketSignature } from "../utils/webhookSecurity";
+import { env } from "../config/envVariables";
+
+/**
+ * Keeps only the fields the adapter needs; full payloads (description, reviewers, links) can exceed the 64 KB queue message limit
+ */
+function toJobPayload(payload: BitbucketWebhookPayload): BitbucketWebhookPayload {
+    if (isBitbucketCloud) {
+        const { pullrequest: pr, repository } = payload as BitbucketCloudWebhookPayload;
+        return {
+            pullrequest: {
+                id: pr.id,
+                state: pr.state,
+                source: { commit: { hash: pr.source.commit.hash } },
+                destination: { commit: { hash: pr.destination.commit.hash } }
+            },
+            repository: { full_name: repository.full_name }
+        };
+    }
+
+    const { eventKey, pullRequest: pr } = payload as BitbucketServerWebhookPayload;
+    const toRef = (ref: BitbucketServerRef): BitbucketServerRef => ({
+        latestCommit: ref.latestCommit,
+        repository: { slug: ref.repository.slug, project: { key: ref.repository.project.key } }
+    });
+    return { eventKey, pullRequest: { id: pr.id, state: pr.state, fromRef: toRef(pr.fromRef), toRef: toRef(pr.toRef) } };
+}
+
+/**
+ * Bitbucket (Cloud and Data Center) Pull Request Review Hook
+ */
+app.http("BitbucketReviewHook", {
+    methods: ["POST"],
+    authLevel: "anonymous",
+    extraOutputs: [reviewQueueOutput],
+    handler: async (req: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> => {
+        try {
+            // The signature is computed over the raw body, so read it before parsing
+            const rawBody = await req.text();
+            if (!verifyBitbucketSignature(rawBody, req.headers.get("x-hub-signature"), env.BITBUCKET_WEBHOOK_SECRET)) {
+                context.warn(`[Bitbucket] Rejected webhook with missing or invalid signature`);
+                return { status: 401, body: "Invalid signature." };
+            }
+
+            const payload = JSON.parse(rawBody) as BitbucketWebhookPayload;
+            const eventKey = req.headers.get("x-event-key");
+            context.log(`[Bitbucket] Received ${eventKey} webhook`);
+
+            // Data Center sends a "diagnostics:ping" event when the webhook is tested
+            if (eventKey === "diagnostics:ping") {
+                return { status: 200, body: "Pong." };
+            }
+
+            const adapter = new BitbucketAdapter(payload, eventKey, context);
+            if (!await adapter.validateWebhook()) {
+                context.log(`[IGNORE] Invalid webhook or action`);
+                return { status: 200, body: "Ignored." };
+            }
+
+            // Review runs in ReviewQueueWorker so the webhook is acknowledged within the platform's timeout
+            enqueueReviewJob(context, { platform: "bitbucket", payload: toJobPayload(payload), eventKey });
+            context.log(`[QUEUE] Enqueued review for ${adapter.getPRIdentifier()}`);
+
+            return { status: 202, body: "Review queued." };
+        } catch (error: any) {
+            context.error(`[Bitbucket] Failed to queue PR review: ${error.message}`);
+            return { status: 500, body: error.message };
+        }
+    }
+});
@@ -1,7 +1,25 @@
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
 import { GitHubWebhookPayload } from "../types/github";
 import { GitHubAdapter } from "../adapters/GitHubAdapter";
-import { ReviewService } from "../services/ReviewService";
+import { enqueueReviewJob, reviewQueueOutput } from "../utils/reviewQueue";
+import { isReplayedDelivery, recordDelivery, verifyGitHubSignature } from "../utils/webhookSecurity";
+import { env } from "../config/envVariables";
+
+/**
+ * Keeps only the fields the adapter needs; full pull_request payloads can exceed the 64 KB queue message limit
+ */
+function toJobPayload(payload: GitHubWebhookPayload): GitHubWebhookPayload {
+    return {
+        action: payload.action,
+        pull_request: {
+            number: payload.pull_request.number,
+            head: { sha: payload.pull_request.head.sha },
+            base: { repo: { owner: { login: payload.pull_request.base.repo.owner.login }, name: payload.pull_request.base.repo.name } }
+        },
+        repository: { owner: { login: payload.repository.owner.login }, name: payload.repository.name },
+        installation: { id: payload.installation.id }
+    };
+}
 
 /**
  * GitHub Pull Request Review Hook
@@ -9,20 +27,43 @@ import { ReviewService } from "../services/ReviewService";
 app.http("GitHubReviewHook", {
     methods: ["POST"],
     authLevel: "anonymous",
+    extraOutputs: [reviewQueueOutput],
     handler: async (req: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> => {
         try {
-            const payload = await req.json() as GitHubWebhookPayload;
-            context.log(`[GitHub] Received webhook for PR #${payload.pull_request.number}`);
+            // The signature is computed over the raw body, so read it before parsing
+            const rawBody = await req.text();
+            if (!verifyGitHubSignature(rawBody, req.headers.get("x-hub-signature-256"), env.GITHUB_WEBHOOK_SECRET)) {
+                context.warn(`[GitHub] Rejected webhook with missing or invalid signature`);
+                return { status: 401, body: "Invalid signature." };
+            }
+
+            const deliveryId = req.headers.get("x-github-delivery");
+            if (!deliveryId) {
+                context.warn(`[GitHub] Rejected webhook without delivery ID`);
+                return { status: 400, body: "Missing delivery ID." };
+            }
+            if (isReplayedDelivery(deliveryId)) {
+                context.warn(`[GitHub] Rejected replayed delivery ${deliveryId}`);
+                return { status: 409, body: "Delivery already processed." };
+            }
+
+            const payload = JSON.parse(rawBody) as GitHubWebhookPayload;
+            context.log(`[GitHub] Received webhook for PR #${payload.pull_request?.number} (delivery ${deliveryId})`);
 
-            // Validation and adapter initialization
             const adapter = new GitHubAdapter(payload, context);
-            const reviewService = new ReviewService(adapter);
+            if (!await adapter.validateWebhook()) {
+                context.log(`[IGNORE] Invalid webhook or action`);
+                return { status: 200, body: "Ignored." };
+            }
 
-            await reviewService.reviewPullRequest(context);
+            // Review runs in ReviewQueueWorker so the webhook is acknowledged within the platform's timeout
+            enqueueReviewJob(context, { platform: "github", payload: toJobPayload(payload) });
+            recordDelivery(deliveryId);
+            context.log(`[QUEUE] Enqueued review for ${adapter.getPRIdentifier()}`);
 
-            return { status: 200, body: "Review completed." };
+            return { status: 202, body: "Review queued." };
         } catch (error: any) {
-            context.error(`[GitHub] Failed to process PR review: ${error.message}`);
+            context.error(`[GitHub] Failed to queue PR review: ${error.message}`);
             return { status: 500, body: error.message };
         }
     }
@@ -0,0 +1,55 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
+import { GitLabWebhookPayload } from "../types/gitlab";
+import { GitLabAdapter } from "../adapters/GitLabAdapter";
+import { enqueueReviewJob, reviewQueueOutput } from "../utils/reviewQueue";
+import { safeEqual } from "../utils/webhookSecurity";
+import { env } from "../config/envVariables";
+
+/**
+ * Keeps only the fields the adapter needs; full payloads (description, changes, labels) can exceed the 64 KB queue message limit
+ */
+function toJobPayload(payload: GitLabWebhookPayload): GitLabWebhookPayload {
+    const { object_attributes: mr } = payload;
+    return {
+        object_kind: payload.object_kind,
+        project: { id: payload.project.id, path_with_namespace: payload.project.path_with_namespace },
+        object_attributes: { iid: mr.iid, action: mr.action, state: mr.state, last_commit: mr.last_commit && { id: mr.last_commit.id } }
+    };
+}
+
+/**
+ * GitLab Merge Request Review Hook
+ */
+app.http("GitLabReviewHook", {
+    methods: ["POST"],
+    authLevel: "anonymous",
+    extraOutputs: [reviewQueueOutput],
+    handler: async (req: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> => {
+        try {
+            // Constant-time compare of the X-Gitlab-Token header against the configured secret
+            const token = req.headers.get("x-gitlab-token");
+            if (!env.GITLAB_WEBHOOK_SECRET || !token || !safeEqual(token, env.GITLAB_WEBHOOK_SECRET)) {
+                context.warn(`[GitLab] Rejected webhook with missing or invalid token`);
+                return { status: 401, body: "Invalid token." };
+            }
+
+            const payload = await req.json() as GitLabWebhookPayload;
+            context.log(`[GitLab] Received webhook for MR !${payload.object_attributes?.iid}`);
+
+            const adapter = new GitLabAdapter(payload, context);
+            if (!await adapter.validateWebhook()) {
+                context.log(`[IGNORE] Invalid webhook or action`);
+                return { status: 200, body: "Ignored." };
+            }
+
+            // Review runs in ReviewQueueWorker so the webhook is acknowledged within the platform's timeout
+            enqueueReviewJob(context, { platform: "gitlab", payload: toJobPayload(payload) });
+            context.log(`[QUEUE] Enqueued review for ${adapter.getPRIdentifier()}`);
+
+            return { status: 202, body: "Review queued." };
+        } catch (error: any) {
+            context.error(`[GitLab] Failed to queue MR review: ${error.message}`);
+            return { status: 500, body: error.message };
+        }
+    }
+});
@@ -1,27 +1,66 @@
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
 import { AzDoWebhookPayload } from "../types/azdo";
 import { AzDoAdapter } from "../adapters/AzDoAdapter";
-import { ReviewService } from "../services/ReviewService";
+import { enqueueReviewJob, reviewQueueOutput } from "../utils/reviewQueue";
+import { isAzDoUrlInOrg, verifyAzDoSecret } from "../utils/webhookSecurity";
+import { env } from "../config/envVariables";
+
+/**
+ * Keeps only the fields the adapter needs; full payloads (description, commits, reviewers) can exceed the 64 KB queue message limit
+ */
+function toJobPayload(payload: AzDoWebhookPayload): AzDoWebhookPayload {
+    const { repository } = payload.resource;
+    return {
+        eventType: payload.eventType,
+        resource: {
+            pullRequestId: payload.resource.pullRequestId,
+            repository: { id: repository.id, url: repository.url, project: { name: repository.project.name } }
+        }
+    };
+}
 
 /* ---------- Azure Function ---------- */
 app.http("PrReviewHook", {
     methods: ["POST"],
     authLevel: "anonymous",
+    extraOutputs: [reviewQueueOutput],
     handler: async (req: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> => {
         try {
+            // Service hook must send the shared secret (basic auth password or X-Anna-Secret header)
+            const isAuthorized = verifyAzDoSecret(
+                req.headers.get("authorization"),
+                req.headers.get("x-anna-secret"),
+                env.AZDO_WEBHOOK_SECRET,
+                env.AZDO_WEBHOOK_USERNAME
+            );
+            if (!isAuthorized) {
+                context.warn(`[AzDo] Rejected webhook with missing or invalid secret`);
+                return { status: 401, body: "Unauthorized." };
+            }
+
             const payload = await req.json() as AzDoWebhookPayload;
-            context.log(`[AzDo] Received webhook for PR ${payload.resource.pullRequestId}`);
+            context.log(`[AzDo] Received webhook for PR ${payload.resource?.pullRequestId}`);
+
+            // Only review repositories from the configured organization
+            if (!isAzDoUrlInOrg(payload.resource?.repository?.url, env.AZDO_ORG_URL)) {
+                context.warn(`[AzDo] Rejected webhook for repository outside ${env.AZDO_ORG_URL}: ${payload.resource?.repository?.url}`);
+                return { status: 403, body: "Repository does not belong to the configured organization." };
+            }
 
             const adapter = new AzDoAdapter(payload);
-            const reviewService = new ReviewService(adapter);
+            if (!await adapter.validateWebhook()) {
+                context.log(`[IGNORE] Invalid webhook or action`);
+                return { status: 200, body: "Ignored." };
+            }
 
-            await reviewService.reviewPullRequest(context);
+            // Review runs in ReviewQueueWorker so the webhook is acknowledged within the platform's timeout
+            enqueueReviewJob(context, { platform: "azdo", payload: toJobPayload(payload) });
+            context.log(`[QUEUE] Enqueued review for ${adapter.getPRIdentifier()}`);
 
-            return { status: 200, body: "Review completed." };
+            return { status: 202, body: "Review queued." };
         } catch (error: any) {
-            context.error(`[AzDo] Failed to process PR review: ${error.message}`);
+            context.error(`[AzDo] Failed to queue PR review: ${error.message}`);
             return { status: 500, body: error.message };
         }
     }
 });
-
@@ -0,0 +1,65 @@
+import { app, InvocationContext } from "@azure/functions";
+import { PlatformAdapter } from "../interfaces/PlatformAdapter";
+import { AzDoAdapter } from "../adapters/AzDoAdapter";
+import { GitHubAdapter } from "../adapters/GitHubAdapter";
+import { GitLabAdapter } from "../adapters/GitLabAdapter";
+import { BitbucketAdapter } from "../adapters/BitbucketAdapter";
+import { ReviewService } from "../services/ReviewService";
+import { getReviewAttempt, REVIEW_POISON_QUEUE_NAME, REVIEW_QUEUE_NAME, ReviewJob, REVIEW_QUEUE_CONNECTION } from "../utils/reviewQueue";
+
+function createAdapter(job: ReviewJob, context: InvocationContext): PlatformAdapter {
+    switch (job.platform) {
+        case "azdo":
+            return new AzDoAdapter(job.payload);
+        case "github":
+            return new GitHubAdapter(job.payload, context);
+        case "gitlab":
+            return new GitLabAdapter(job.payload, context);
+        case "bitbucket":
+            return new BitbucketAdapter(job.payload, job.eventKey ?? null, context);
+        default:
+            throw new Error(`Unknown platform: ${(job as ReviewJob).platform}`);
+    }
+}
+
+/**
+ * Runs queued reviews. A thrown error makes the host retry the message
+ * (up to maxDequeueCount in host.json) before moving it to the poison queue.
+ */
+app.storageQueue("ReviewQueueWorker", {
+    queueName: REVIEW_QUEUE_NAME,
+    connection: REVIEW_QUEUE_CONNECTION,
+    handler: async (message: unknown, context: InvocationContext): Promise<void> => {
+        const job = message as ReviewJob;
+        const dequeueCount = getReviewAttempt(context);
+
+        const adapter = createAdapter(job, context);
+        context.log(`[QUEUE] Processing ${job.platform} review for ${adapter.getPRIdentifier()} (attempt ${dequeueCount})`);
+
+        try {
+            const reviewService = new ReviewService(adapter);
+            await reviewService.reviewPullRequest(context);
+        } catch (error: any) {
+            context.error(`[QUEUE] Review of ${adapter.getPRIdentifier()} failed on attempt ${dequeueCount}: ${error.message}`);
+            throw error;
+        }
+    }
+});
+
+/**
+ * Logs jobs that failed every retry, including the payload so the review can be re-queued manually
+ */
+app.storageQueue("ReviewQueuePoison", {
+    queueName: REVIEW_POISON_QUEUE_NAME,
+    connection: REVIEW_QUEUE_CONNECTION,
+    handler: async (message: unknown, context: InvocationContext): Promise<void> => {
+        const job = message as ReviewJob;
+        let prId = "unknown PR";
+        try {
+            prId = createAdapter(job, context).getPRIdentifier();
+        } catch {
+            // Malformed job, the raw message below is all we have
+        }
+        context.error(`[QUEUE] Review of ${prId} failed all retries and was moved to the poison queue: ${JSON.stringify(message)}`);
+    }
+});
@@ -0,0 +1,50 @@
+/**
+ * Name of the structured output, for backends that need one (OpenAI schema name, Anthropic tool name)
+ */
+export const STRUCTURED_OUTPUT_NAME = "submit_review";
+
+/**
+ * A prompt for an AI backend
+ */
+export interface AIRequest {
+    system: string;
+    prompt: string;
+    model: string;                      // Model name, or the deployment name on Azure OpenAI
+    schema?: Record<string, unknown>;   // JSON Schema the response must follow, using the backend's native structured output
+}
+
+/**
+ * A tool the model is forced to call. `parameters` is a JSON Schema.
+ */
+export interface AITool {
+    name: string;
+    description: string;
+    parameters: Record<string, unknown>;
+}
+
+/**
+ * Connection settings of a backend, resolved from the environment by the provider registry
+ */
+export interface AIProviderSettings {
+    apiKey?: string;
+    baseUrl?: string;                   // Overrides the backend's default endpoint (proxy, gateway, local server)
+}
+
+export interface AIProvider {
+    readonly name: string;
+    /**
+     * Sends the prompt and returns the raw text response. With a schema, the response is JSON following it.
+     */
+    complete(request: AIRequest): Promise<string | null>;
+    /**
+     * Sends the prompt, forcing a call of the tool. Returns the call's arguments as JSON, or null if the model did not call it.
+     */
+    callTool(request: AIRequest, tool: AITool): Promise<string | null>;
+}
+
+export interface AIProviderRegistration {
+    id: string;                         // Name in AI_PROVIDER and in the `provider` of a persona
+    aliases?: string[];
+    apiKey?: string;                    // The backend's own API key, taking precedence over AI_API_KEY
+    create(settings: AIProviderSettings): AIProvider;
+}
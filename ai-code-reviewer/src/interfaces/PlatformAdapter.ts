@@ -4,15 +4,100 @@ export interface FileChange {
     isFolder?: boolean;
 }
 
-export type ReviewStatus = 'approved' | 'changes_requested' | 'commented';
+/**
+ * An unresolved comment thread started by the reviewer in an earlier review
+ */
+export interface BotThread {
+    id: string;
+    path: string;
+    startLine?: number;
+    endLine?: number;
+    comment: string;    // Text of the reviewer's first comment in the thread
+}
+
+/**
+ * A comment already posted on the PR, by the reviewer or by anyone else
+ */
+export interface ExistingComment {
+    path?: string;      // Not set for general PR comments
+    startLine?: number;
+    endLine?: number;
+    body: string;
+}
+
+/**
+ * A review comment to post on a file, optionally anchored to a line range
+ */
+export interface ReviewComment {
+    filePath: string;
+    startLine?: number;
+    endLine?: number;
+    severity: string;
+    comment: string;
+    suggestion?: string;    // Validated replacement code for startLine..endLine
+}
+
+/**
+ * Final status of a review, from approval to rejection. Each one maps to an AzDo vote:
+ * approved 10, commented 5 (approved with suggestions), no_vote 0, waiting -5, changes_requested -5, rejected -10.
+ * 'waiting' is also used for incomplete reviews (some files could not be reviewed).
+ */
+export const REVIEW_STATUSES = ['approved', 'commented', 'no_vote', 'waiting', 'changes_requested', 'rejected'] as const;
+export type ReviewStatus = typeof REVIEW_STATUSES[number];
 
 export interface PlatformAdapter {
     validateWebhook(): Promise<boolean>;
     shouldProcessPR(): Promise<boolean>;
     lockPR(): Promise<void>;
+    /**
+     * Releases the lock taken by lockPR() so a failed review can be retried.
+     */
+    unlockPR(): Promise<void>;
+    /**
+     * Returns the changed files, without the deleted ones. On an incremental re-review, only the files changed
+     * since the last reviewed commit; getFileDiff() then returns the diff since that commit.
+     */
     getChangedFiles(): Promise<FileChange[]>;
+    /**
+     * Returns the PR's head commit, known once shouldProcessPR() or getChangedFiles() loaded the PR.
+     */
+    getHeadCommit(): string | undefined;
     getFileContent(path: string, commitId: string): Promise<string>;
-    postComment(path: string, startLine: number | undefined, endLine: number | undefined, comment: string): Promise<void>;
-    setFinalStatus(status: ReviewStatus): Promise<void>;
+    /**
+     * Returns the unified diff (hunks only, no file headers) of a changed file
+     * between the PR's base and head. Returns an empty string if no diff is available.
+     * headContent is the file's content at the head commit, when the caller already fetched it.
+     */
+    getFileDiff(file: FileChange, headContent?: string): Promise<string>;
+    /**
+     * Returns all file paths in the repository at the given commit.
+     * Optional: used to build the code map, skipped by adapters that don't support it.
+     */
+    getRepoFilePaths?(commitId: string): Promise<string[]>;
+    /**
+     * Returns the previously reviewed commit when only the changes pushed since then are reviewed.
+     * Optional: adapters without incremental re-review always review the whole PR.
+     */
+    getLastReviewedCommit?(): string | undefined;
+    /**
+     * Returns the reviewer's own unresolved comment threads from earlier reviews.
+     * Optional: still-open threads count towards the approval policy and are not raised again.
+     * Together with resolveThread(), lets re-reviews resolve threads whose issue was fixed.
+     */
+    getOpenBotThreads?(): Promise<BotThread[]>;
+    resolveThread?(thread: BotThread): Promise<void>;
+    /**
+     * Lists the comments already posted on the PR, used to skip duplicates before posting.
+     */
+    getExistingComments(): Promise<ExistingComment[]>;
+    /**
+     * Posts a top-level comment that is not part of the review (e.g., an invalid repository config).
+     */
+    postGeneralComment(body: string): Promise<void>;
+    /**
+     * Posts all review comments and the final status in one go (e.g., a single GitHub review),
+     * so the author gets one notification. The optional summary is added to the final message.
+     */
+    submitReview(comments: ReviewComment[], status: ReviewStatus, summary?: string): Promise<void>;
     getPRIdentifier(): string;
 }
@@ -0,0 +1,56 @@
+import { CodeStats } from "../utils/codeCleaner";
+import { LineRange } from "../utils/diffUtils";
+
+export type RuleSeverity = 'critical' | 'major';
+
+/**
+ * A changed file as seen by the static rules
+ */
+export interface RuleFile {
+    path: string;
+    language?: string;          // See getLanguage(), undefined for unsupported file types
+    lines: string[];            // Raw lines (index 0 is line 1)
+    codeLines: string[];        // Same lines with comments removed and literals blanked out
+    commentLines: string[];     // Same lines with only the comments kept
+    stats: CodeStats;
+    changedRanges: LineRange[]; // Added/modified lines and lines next to removed ones, empty if no diff is available (the whole file counts as changed)
+}
+
+/**
+ * A problem found by a rule, optionally anchored to a line range
+ */
+export interface RuleFinding {
+    startLine?: number;
+    endLine?: number;
+    message: string;
+}
+
+/**
+ * Effective settings of a rule: its defaults overridden by the `rules` section of `.anna.yml`
+ */
+export interface RuleSettings {
+    enabled: boolean;
+    severity: RuleSeverity;
+    blocking: boolean;                  // Findings request changes, whatever the AI found
+    max?: number;                       // Threshold of threshold-based rules
+    languages: Record<string, number>;  // Language -> threshold, overriding `max`
+}
+
+export interface StaticRule {
+    id: string;         // Name of the rule in `.anna.yml`
+    title: string;      // Shown in bold at the start of each finding
+    defaults: RuleSettings;
+    /**
+     * Files with a finding are not sent to the AI (e.g., too large to review).
+     */
+    skipsAIReview?: boolean;
+    /**
+     * Checks the file path only. Runs on every changed file, including the ones skipped by the ignore rules,
+     * but not on deleted files (see PlatformAdapter.getChangedFiles()).
+     */
+    checkPath?(path: string): RuleFinding[];
+    /**
+     * Checks the file content. `max` is the threshold for the file's language, if the rule has one.
+     */
+    checkFile?(file: RuleFile, max: number | undefined): RuleFinding[];
+}
@@ -6,6 +6,7 @@
  */
 
 import { env } from "../config/envVariables";
+import { formatLineRanges, getChangedLineRanges } from "../utils/diffUtils";
 
 /**
  * System prompt - defines the AI's role and persona
@@ -27,13 +28,109 @@ const defaultReviewGuidelines = `
 `;
 
 /**
- * User prompt template - defines what the AI should review for a specific file
- * @param fileName - The name/path of the file being reviewed
- * @param content - The content of the file
- * @param customGuidelines - Optional project-specific guidelines
+ * A reviewer persona: its own role and focus, and optionally its own AI provider and model.
+ * Every configured persona reviews the pull request, and their findings are merged.
  */
-export function getUserPrompt(fileName: string, content: string, customGuidelines?: string): string {
-  const guidelinesSection = customGuidelines
+export interface ReviewerPersona {
+  id: string;
+  name: string;             // Tags the persona's comments when several personas review
+  systemPrompt: string;
+  focus?: string;           // Focus guidelines, added to the review guidelines
+  provider?: string;        // Overrides AI_PROVIDER
+  model?: string;           // Overrides AI_MODEL (and the .anna.yml model)
+}
+
+/**
+ * The default persona: a general review, with the prompts above unchanged
+ */
+export const DEFAULT_PERSONA: ReviewerPersona = { id: 'tech_lead', name: 'Tech Lead', systemPrompt };
+
+/**
+ * Built-in personas, selectable by id in REVIEW_PERSONAS or `.anna.yml`
+ */
+export const BUILTIN_PERSONAS: ReviewerPersona[] = [
+  DEFAULT_PERSONA,
+  {
+    id: 'security',
+    name: 'Security Reviewer',
+    systemPrompt: `You are an Application Security Engineer performing a pull request review.`,
+    focus: `
+- Injection (SQL, command, path, template) and unvalidated or unsanitized input
+- Missing or wrong authentication, authorization and access checks
+- Secrets, tokens and credentials in code, config or logs
+- Weak cryptography, insecure randomness and unencrypted transport
+- Sensitive data exposed in responses, error messages and logs
+`,
+  },
+  {
+    id: 'performance',
+    name: 'Performance Reviewer',
+    systemPrompt: `You are a Performance Engineer performing a pull request review.`,
+    focus: `
+- Algorithmic complexity and work repeated inside loops
+- N+1 queries, missing batching or pagination, unbounded result sets
+- Sequential or blocking I/O that could run concurrently, missing caching
+- Memory growth, leaks and large allocations on hot paths
+`,
+  },
+  {
+    id: 'test_coverage',
+    name: 'Test Coverage Reviewer',
+    systemPrompt: `You are a Test Engineer performing a pull request review.`,
+    focus: `
+- Changed behavior without tests, or tests that don't assert it
+- Missing edge, error and boundary cases
+- Brittle tests: timing, ordering, shared state, over-mocking
+- Tests that cannot fail
+`,
+  },
+  {
+    id: 'architecture',
+    name: 'Architecture Reviewer',
+    systemPrompt: `You are a Software Architect performing a pull request review.`,
+    focus: `
+- Module boundaries, layering and dependency direction
+- Duplication of helpers or abstractions that already exist
+- Responsibilities, coupling and cohesion of classes and functions
+- Changes to public APIs and data models, and their callers
+- Consistency with the patterns used elsewhere in the codebase
+`,
+  },
+];
+
+/**
+ * A changed file included in a review prompt
+ */
+export interface ReviewFile {
+  fileName: string;
+  content: string;
+  diff?: string;
+}
+
+/**
+ * Read-only repository context for the codemap and agentic context modes
+ */
+export interface RepoContext {
+  codeMap?: string;
+  contextFiles?: ReviewFile[];   // Unchanged files requested by the AI in the agentic planning pass
+}
+
+/**
+ * A comment the reviewer posted in an earlier review that is still unresolved
+ */
+export interface PreviousIssue {
+  id: string;
+  fileName: string;
+  startLine?: number;
+  endLine?: number;
+  comment: string;
+}
+
+/**
+ * Builds the "how to do the review" section, preferring the repository's custom guidelines
+ */
+function getGuidelinesSection(customGuidelines?: string): string {
+  return customGuidelines
     ? `### SECTION 1: HOW TO DO THE REVIEW (CUSTOM GUIDELINES — STRICTLY FOLLOW)
 ⚠️ **The following are project-specific custom guidelines provided by the repository owner.**
 **You MUST strictly adhere to these guidelines. They are the primary source of truth for this review.**
@@ -42,17 +139,111 @@ export function getUserPrompt(fileName: string, content: string, customGuideline
 ${customGuidelines}`
     : `### SECTION 1: HOW TO DO THE REVIEW
 ${defaultReviewGuidelines}`;
+}
 
+/**
+ * Builds the section that narrows the review to the persona's focus. Returns an empty string for personas without one.
+ */
+function getFocusSection(persona: ReviewerPersona): string {
+  if (!persona.focus) return '';
   return `
-You are a Software Tech Lead performing a pull request review.
+### YOUR FOCUS AS ${persona.name.toUpperCase()}
+Other reviewers cover everything else. ONLY report issues in these areas:
+${persona.focus}`;
+}
+
+/**
+ * Builds the list of added/modified lines and the unified diff for a file.
+ * Returns an empty string when there is no usable diff (the whole file is reviewed instead).
+ */
+function getChangedLinesSection(fileName: string, diff?: string): string {
+  const changedRanges = diff ? getChangedLineRanges(diff) : [];
+  if (changedRanges.length === 0) return '';
+
+  return `Only the following lines of **${fileName}** were added, modified or are next to removed lines in this pull request:
+**${formatLineRanges(changedRanges)}**
+
+UNIFIED DIFF FOR ${fileName} (lines starting with "+" were added, "-" were removed):
+\`\`\`diff
+${diff}
+\`\`\``;
+}
+
+/**
+ * Builds the read-only repository sections (code map and requested context files)
+ */
+function getRepoContextSection(repoContext?: RepoContext): string {
+  let section = '';
+
+  if (repoContext?.codeMap) {
+    section += `
+### REPOSITORY STRUCTURE (Read-Only Reference)
+The following is a structural outline (classes, interfaces and function signatures) of the repository.
+Use this to understand the broader codebase architecture, e.g. which helpers and abstractions already exist.
+Do NOT review these files — only use them as context. Do NOT generate review comments for them.
+\`\`\`
+${repoContext.codeMap}
+\`\`\`
+`;
+  }
+
+  if (repoContext?.contextFiles?.length) {
+    const files = repoContext.contextFiles.map(file => `#### CONTEXT FILE: ${file.fileName}
+\`\`\`
+${file.content}
+\`\`\``).join('\n\n');
+
+    section += `
+### CONTEXT FILES (READ-ONLY — do NOT generate review comments for these files)
+The following unchanged files from the repository are provided so you can verify how the changed code interacts with them.
+
+${files}
+`;
+  }
+
+  return section;
+}
+
+/**
+ * User prompt template - defines what the AI should review for a specific file
+ * @param fileName - The name/path of the file being reviewed
+ * @param content - The content of the file
+ * @param customGuidelines - Optional project-specific guidelines
+ * @param diff - Optional unified diff of the file; when provided, only the added/modified lines are reviewed
+ * @param repoContext - Optional read-only repository context (code map, requested context files)
+ * @param persona - The reviewer persona doing the review
+ */
+export function getUserPrompt(
+  fileName: string,
+  content: string,
+  customGuidelines?: string,
+  diff?: string,
+  repoContext?: RepoContext,
+  persona: ReviewerPersona = DEFAULT_PERSONA
+): string {
+  const changedLines = getChangedLinesSection(fileName, diff);
+  const changesSection = changedLines
+    ? `
+### SECTION 3: WHAT CHANGED IN THIS PULL REQUEST
+- ONLY review and comment on the added/modified lines (line numbers in the FILE CONTENT below).
+- The rest of the file is unchanged and is provided as context only. Do NOT comment on unchanged code.
+- The "startLine" and "endLine" of every comment MUST fall within the added/modified lines.
+
+${changedLines}
+`
+    : '';
+
+  return `
+${persona.systemPrompt}
 Review the following file: **${fileName}**
 
 ### IMPORTANT INSTRUCTIONS
 - If you have too many comments, pick the top 10 most important ones ONLY.
+${changesSection ? '- **Only review the lines that were added or modified in this pull request (see SECTION 3).**' : ''}
 ${customGuidelines ? '- **Custom guidelines are provided below. You MUST strictly follow them and ONLY review based on those guidelines.**' : ''}
 
-${guidelinesSection}
-
+${getGuidelinesSection(customGuidelines)}
+${getFocusSection(persona)}
 ### SECTION 2: HOW TO RETURN THE REVIEWED DATA
 Provide your review in valid JSON format.
 The output should be a JSON object with a single key "reviews" which is an array of objects.
@@ -62,16 +253,207 @@ Each object should have:
 - "endLine": The end line number where the issue is located (1-based integer).
 - "severity": One of "critical", "major", "minor".
 - "comment": The review comment (include the appropriate severity icon).
+- "suggestion": (Optional) The replacement code for lines "startLine" to "endLine", exactly as those lines should read after the fix, with the original indentation and without line numbers or markdown fences. Only include it for a small, self-contained fix that replaces nothing outside that range; omit it otherwise.
 
 Before returning the comments double check each line number against
 each comment to ensure it's right. If not then find the right start and end lines and update
 the line numbers.
 
 If the file looks good, return an empty array: { "reviews": [] }
-
+${changesSection}${getRepoContextSection(repoContext)}
 FILE CONTENT FOR ${fileName}:
 \`\`\`
 ${content}
 \`\`\`
 `;
 }
+
+/**
+ * Batched user prompt template - reviews all changed files of a PR in a single prompt
+ * so the AI can see cross-file relationships (e.g., a changed interface and its callers).
+ * @param files - The changed files (with optional diffs) to review together
+ * @param customGuidelines - Optional project-specific guidelines
+ * @param repoContext - Optional read-only repository context (code map, requested context files)
+ * @param persona - The reviewer persona doing the review
+ */
+export function getBatchedUserPrompt(files: ReviewFile[], customGuidelines?: string, repoContext?: RepoContext, persona: ReviewerPersona = DEFAULT_PERSONA): string {
+  const fileSections = files.map(file => {
+    const changedLines = getChangedLinesSection(file.fileName, file.diff);
+    return `### FILE: ${file.fileName}
+${changedLines ? `${changedLines}\n` : 'This file is new or has no diff available — review the whole file.\n'}
+FILE CONTENT FOR ${file.fileName}:
+\`\`\`
+${file.content}
+\`\`\``;
+  }).join('\n\n');
+
+  return `
+${persona.systemPrompt}
+Review ALL of the following ${files.length} files from the same pull request together.
+
+### IMPORTANT INSTRUCTIONS
+- If you have too many comments, pick the top 10 most important ones ONLY (across all files).
+- The files are changed together. Check cross-file consistency: a change in one file may break its callers, implementations or tests in another file.
+- Where a file lists added/modified lines, ONLY comment on those lines. The rest of that file is context only.
+${customGuidelines ? '- **Custom guidelines are provided below. You MUST strictly follow them and ONLY review based on those guidelines.**' : ''}
+
+${getGuidelinesSection(customGuidelines)}
+${getFocusSection(persona)}
+### SECTION 2: HOW TO RETURN THE REVIEWED DATA
+Provide your review in valid JSON format.
+The output should be a JSON object with a single key "reviews" which is an array of objects.
+
+Each object should have:
+- "filePath": The path of the file the comment belongs to, exactly as shown in its "### FILE:" header.
+- "startLine": The start line number where the issue is located (1-based integer, within that file).
+- "endLine": The end line number where the issue is located (1-based integer, within that file).
+- "severity": One of "critical", "major", "minor".
+- "comment": The review comment (include the appropriate severity icon).
+- "suggestion": (Optional) The replacement code for lines "startLine" to "endLine", exactly as those lines should read after the fix, with the original indentation and without line numbers or markdown fences. Only include it for a small, self-contained fix that replaces nothing outside that range; omit it otherwise.
+
+Before returning the comments double check each file path and line number against
+each comment to ensure it's right. If not then find the right file, start and end lines and update them.
+
+If all files look good, return an empty array: { "reviews": [] }
+${getRepoContextSection(repoContext)}
+### SECTION 3: CHANGED FILES
+${fileSections}
+`;
+}
+
+/**
+ * Planning prompt template - first pass of the agentic context mode.
+ * Asks the AI which unchanged repository files it needs to read to review the changes thoroughly.
+ * @param changedFiles - The changed files (with optional diffs)
+ * @param allRepoPaths - The repository file paths the AI may request (capped by the caller to fit the token budget)
+ * @param maxFiles - Maximum number of files the AI may request
+ * @param codeMap - Optional structural outline of the repository
+ */
+export function getPlanningPrompt(changedFiles: ReviewFile[], allRepoPaths: string[], maxFiles: number, codeMap?: string): string {
+  const changes = changedFiles.map(file => {
+    const changedLines = getChangedLinesSection(file.fileName, file.diff);
+    return `### FILE: ${file.fileName}
+${changedLines || 'New file or no diff available.'}`;
+  }).join('\n\n');
+
+  return `
+You are a Software Tech Lead preparing to review a pull request.
+Before the review, you can read additional files from the repository.
+
+### YOUR TASK
+Based on the changed files below, decide which OTHER files from the repository you would need to read
+to do a thorough code review (e.g., callers of changed functions, implemented interfaces, related config and tests).
+- Request at most ${maxFiles} files, most important first.
+- Only request paths that appear exactly in the REPOSITORY FILES list.
+- Do NOT request files that are already part of the changes.
+- If no additional context is needed, request no files.
+
+### HOW TO RETURN THE DATA
+Return valid JSON in this format: { "requestedFiles": ["src/types/foo.ts", "src/services/bar.ts"] }
+${getRepoContextSection({ codeMap })}
+### CHANGED FILES
+${changes}
+
+### REPOSITORY FILES
+${allRepoPaths.join('\n')}
+`;
+}
+
+/**
+ * Resolution check prompt template - asks the AI which previously reported issues are fixed in the current code.
+ * @param issues - Unresolved comments from earlier reviews
+ * @param files - Current content of the files the comments belong to
+ */
+export function getResolutionCheckPrompt(issues: PreviousIssue[], files: ReviewFile[]): string {
+  const issueList = issues.map(issue => {
+    const lines = issue.endLine
+      ? ` (originally at ${issue.startLine && issue.startLine < issue.endLine ? `lines ${issue.startLine}-${issue.endLine}` : `line ${issue.endLine}`})`
+      : '';
+    return `#### ISSUE ${issue.id} in ${issue.fileName}${lines}
+${issue.comment}`;
+  }).join('\n\n');
+
+  const fileSections = files.map(file => `### FILE: ${file.fileName}
+\`\`\`
+${file.content}
+\`\`\``).join('\n\n');
+
+  return `
+You are a Software Tech Lead re-reviewing a pull request after the author pushed new changes.
+In an earlier review you reported the issues below. Check each one against the CURRENT code of its file.
+
+### YOUR TASK
+- An issue is fixed if the problem it describes no longer exists in the current code (fixed, or the code was removed).
+- Line numbers refer to the reviewed version and may have moved; find the code the issue is about.
+- If you are not sure an issue is fixed, treat it as NOT fixed.
+
+### HOW TO RETURN THE DATA
+Return valid JSON with one entry per issue, in this format:
+{ "results": [{ "id": "<issue id>", "fixed": true }] }
+
+### PREVIOUSLY REPORTED ISSUES
+${issueList}
+
+### CURRENT FILES
+${fileSections}
+`;
+}
+
+/**
+ * Assessment prompt template - asks the AI for a short overall assessment of the pull request.
+ * @param files - The reviewed files (diffs are used when available, otherwise the full content)
+ * @param findings - The review comments found in this review
+ */
+export function getAssessmentPrompt(files: ReviewFile[], findings: { fileName: string; severity: string; comment: string }[]): string {
+  const changes = files.map(file => `### FILE: ${file.fileName}
+\`\`\`${file.diff ? 'diff' : ''}
+${file.diff || file.content}
+\`\`\``).join('\n\n');
+
+  const findingList = findings.length > 0
+    ? findings.map(f => `- [${f.severity}] ${f.fileName}: ${f.comment}`).join('\n')
+    : 'No issues were found.';
+
+  return `
+You are a Software Tech Lead who just reviewed a pull request.
+Write a short overall assessment of the pull request for its author.
+
+### YOUR TASK
+- 2 to 4 sentences, plain Markdown, no headings and no lists.
+- Say what the change does, how it looks overall, and the most important thing to address (if any).
+- Do NOT repeat every finding; they are posted separately.
+
+### HOW TO RETURN THE DATA
+Return valid JSON in this format: { "assessment": "..." }
+
+### FINDINGS
+${findingList}
+
+### CHANGES
+${changes}
+`;
+}
+
+/**
+ * Repair prompt template - sent when a review response failed validation.
+ * Repeats the original prompt with the invalid response and the validation errors, so the AI can correct it.
+ * @param userPrompt - The original review prompt
+ * @param rawResponse - The invalid response
+ * @param errors - What is wrong with it
+ */
+export function getRepairPrompt(userPrompt: string, rawResponse: string | null, errors: string[]): string {
+  return `${userPrompt}
+
+### YOUR PREVIOUS RESPONSE WAS INVALID
+Your previous response to the review above could not be used:
+\`\`\`
+${rawResponse || '(empty response)'}
+\`\`\`
+
+It has the following problems:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Return the complete review again as a JSON object with a "reviews" array, following SECTION 2 exactly.
+Fix the problems above; only use line numbers that exist in the file the comment belongs to.
+`;
+}
@@ -0,0 +1,51 @@
+import Anthropic from "@anthropic-ai/sdk";
+import { AIProvider, AIProviderSettings, AIRequest, AITool, STRUCTURED_OUTPUT_NAME } from "../interfaces/AIProvider";
+
+/**
+ * Anthropic Messages backend. A base URL points it at an Anthropic-compatible gateway.
+ */
+export class AnthropicProvider implements AIProvider {
+    readonly name = "anthropic";
+    private client: Anthropic;
+
+    constructor(settings: AIProviderSettings) {
+        this.client = new Anthropic({ apiKey: settings.apiKey, baseURL: settings.baseUrl });
+    }
+
+    async complete(request: AIRequest): Promise<string | null> {
+        // Claude has no JSON mode: forcing a tool call whose input is the schema gives structured output
+        const tool = request.schema
+            ? { name: STRUCTURED_OUTPUT_NAME, description: "Submit the result.", parameters: request.schema }
+            : undefined;
+        const { text, toolInput } = await this.send(request, 4096, tool);
+        return toolInput !== undefined ? JSON.stringify(toolInput) : text;
+    }
+
+    async callTool(request: AIRequest, tool: AITool): Promise<string | null> {
+        const { toolInput } = await this.send(request, 1024, tool);
+        return toolInput !== undefined ? JSON.stringify(toolInput) : null;
+    }
+
+    private async send(request: AIRequest, maxTokens: number, tool?: AITool): Promise<{ text: string; toolInput?: unknown }> {
+        const response = await this.client.messages.create({
+            model: request.model,
+            max_tokens: maxTokens,
+            system: request.system,
+            ...(tool ? {
+                tools: [{ name: tool.name, description: tool.description, input_schema: tool.parameters as Anthropic.Tool.InputSchema }],
+                tool_choice: { type: "tool" as const, name: tool.name }
+            } : {}),
+            messages: [
+                { role: "user", content: request.prompt }
+            ]
+        });
+
+        const toolUse = response.content.find(block => block.type === 'tool_use');
+        // Extract text from content blocks
+        const text = response.content
+            .filter(block => block.type === 'text')
+            .map(block => (block as any).text)
+            .join('\n');
+        return { text, toolInput: toolUse ? (toolUse as any).input : undefined };
+    }
+}
@@ -0,0 +1,73 @@
+import { FunctionCallingMode, GoogleGenerativeAI, RequestOptions, Schema, SchemaType } from "@google/generative-ai";
+import { AIProvider, AIProviderSettings, AIRequest, AITool } from "../interfaces/AIProvider";
+
+/**
+ * Converts a JSON Schema to Gemini's schema format: "nullable" instead of "null" types, and enums as enum-format strings
+ */
+function toGeminiSchema(schema: any): Schema {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const converted: any = { type: types.find(type => type !== 'null') as SchemaType };
+
+    if (types.includes('null')) converted.nullable = true;
+    if (schema.description) converted.description = schema.description;
+    if (schema.enum) {
+        converted.format = 'enum';
+        converted.enum = schema.enum;
+    }
+    if (schema.properties) {
+        converted.properties = Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)]));
+        converted.required = schema.required;
+    }
+    if (schema.items) converted.items = toGeminiSchema(schema.items);
+    return converted;
+}
+
+/**
+ * Google Gemini backend. A base URL points it at a Gemini-compatible gateway.
+ */
+export class GeminiProvider implements AIProvider {
+    readonly name = "google";
+    private client: GoogleGenerativeAI;
+    private requestOptions: RequestOptions;
+
+    constructor(settings: AIProviderSettings) {
+        this.client = new GoogleGenerativeAI(settings.apiKey!);
+        this.requestOptions = settings.baseUrl ? { baseUrl: settings.baseUrl } : {};
+    }
+
+    async complete(request: AIRequest): Promise<string | null> {
+        const model = this.client.getGenerativeModel({
+            model: request.model,
+            systemInstruction: request.system,
+            ...(request.schema ? { generationConfig: { responseMimeType: "application/json", responseSchema: toGeminiSchema(request.schema) } } : {})
+        }, this.requestOptions);
+
+        const result = await model.generateContent(request.prompt);
+        const response = await result.response;
+        return response.text();
+    }
+
+    async callTool(request: AIRequest, tool: AITool): Promise<string | null> {
+        const model = this.client.getGenerativeModel({
+            model: request.model,
+            systemInstruction: request.system,
+            tools: [{
+                functionDeclarations: [{
+                    name: tool.name,
+                    description: tool.description,
+                    parameters: toGeminiSchema(tool.parameters) as any
+                }]
+            }],
+            toolConfig: {
+                functionCallingConfig: {
+                    mode: FunctionCallingMode.ANY,
+                    allowedFunctionNames: [tool.name]
+                }
+            }
+        }, this.requestOptions);
+
+        const result = await model.generateContent(request.prompt);
+        const functionCall = result.response.functionCalls()?.[0];
+        return functionCall ? JSON.stringify(functionCall.args) : null;
+    }
+}
@@ -0,0 +1,40 @@
+import OpenAI from "openai";
+import { AIProvider, AIRequest, AITool, STRUCTURED_OUTPUT_NAME } from "../interfaces/AIProvider";
+
+/**
+ * OpenAI Chat Completions backend. Also serves Azure OpenAI (with an AzureOpenAI client)
+ * and OpenAI-compatible servers (with a base URL).
+ */
+export class OpenAIProvider implements AIProvider {
+    constructor(readonly name: string, private client: OpenAI) { }
+
+    async complete(request: AIRequest): Promise<string | null> {
+        const completion = await this.client.chat.completions.create({
+            model: request.model,
+            messages: this.getMessages(request),
+            response_format: request.schema
+                ? { type: "json_schema", json_schema: { name: STRUCTURED_OUTPUT_NAME, schema: request.schema, strict: true } }
+                : { type: "json_object" }
+        });
+        return completion.choices[0].message.content;
+    }
+
+    async callTool(request: AIRequest, tool: AITool): Promise<string | null> {
+        const completion = await this.client.chat.completions.create({
+            model: request.model,
+            messages: this.getMessages(request),
+            tools: [{ type: "function", function: tool }],
+            tool_choice: { type: "function", function: { name: tool.name } }
+        });
+
+        const toolCall = completion.choices[0].message.tool_calls?.[0];
+        return toolCall?.type === "function" ? toolCall.function.arguments : null;
+    }
+
+    private getMessages(request: AIRequest): OpenAI.Chat.ChatCompletionMessageParam[] {
+        return [
+            { role: "system", content: request.system },
+            { role: "user", content: request.prompt }
+        ];
+    }
+}
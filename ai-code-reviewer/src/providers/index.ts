@@ -0,0 +1,115 @@
+import OpenAI, { AzureOpenAI } from "openai";
+import { AIProvider, AIProviderRegistration, AIProviderSettings } from "../interfaces/AIProvider";
+import { env } from "../config/envVariables";
+import { AnthropicProvider } from "./AnthropicProvider";
+import { GeminiProvider } from "./GeminiProvider";
+import { OpenAIProvider } from "./OpenAIProvider";
+
+/**
+ * AI Provider Registry
+ * Maps the AI_PROVIDER names (and persona `provider` names) to backends, and creates one client per backend.
+ * To add a backend, implement AIProvider and call registerAIProvider(); nothing else needs to change.
+ */
+
+const DEFAULT_AZURE_OPENAI_API_VERSION = "2024-10-21";
+
+const registrations: AIProviderRegistration[] = [];
+const providers = new Map<string, AIProvider>();
+
+/**
+ * Registers a backend under its id and aliases. Registering an existing id replaces that backend.
+ */
+export function registerAIProvider(registration: AIProviderRegistration): void {
+    const index = registrations.findIndex(r => r.id === registration.id);
+    if (index >= 0) registrations.splice(index, 1);
+    registrations.push(registration);
+    providers.delete(registration.id);
+}
+
+/**
+ * Finds the backend of a name, the latest registration first
+ */
+function findRegistration(name: string): AIProviderRegistration | undefined {
+    const key = name.trim().toLowerCase();
+    return [...registrations].reverse().find(r => r.id === key || r.aliases?.includes(key));
+}
+
+/**
+ * Names accepted by AI_PROVIDER and the `provider` of a persona
+ */
+export function getAIProviderNames(): string[] {
+    return registrations.flatMap(r => [r.id, ...(r.aliases || [])]);
+}
+
+/**
+ * Settings of a backend: its own API key or AI_API_KEY, and AI_BASE_URL if it is the configured AI_PROVIDER
+ */
+function getSettings(registration: AIProviderRegistration): AIProviderSettings {
+    const isConfigured = findRegistration(env.AI_PROVIDER || '') === registration;
+    return {
+        apiKey: registration.apiKey || env.AI_API_KEY,
+        baseUrl: isConfigured ? env.AI_BASE_URL : undefined,
+    };
+}
+
+/**
+ * Returns the backend for a provider name, by default AI_PROVIDER. The client is created once and reused.
+ */
+export function getAIProvider(name: string = env.AI_PROVIDER): AIProvider {
+    const registration = findRegistration(name || '');
+    if (!registration) throw new Error(`Unsupported AI provider: ${name}`);
+
+    let provider = providers.get(registration.id);
+    if (!provider) {
+        provider = registration.create(getSettings(registration));
+        providers.set(registration.id, provider);
+    }
+    return provider;
+}
+
+registerAIProvider({
+    id: "openai",
+    aliases: ["gpt", "chatgpt"],
+    apiKey: env.OPENAI_API_KEY,
+    create: settings => new OpenAIProvider("openai", new OpenAI({ apiKey: settings.apiKey, baseURL: settings.baseUrl })),
+});
+
+// vLLM, Ollama, LM Studio, LiteLLM, Bedrock access gateways, ...: any server with the OpenAI Chat Completions API
+registerAIProvider({
+    id: "openai_compatible",
+    aliases: ["ollama", "vllm", "lmstudio"],
+    create: settings => {
+        if (!settings.baseUrl) throw new Error("AI_BASE_URL is required for an OpenAI-compatible provider");
+        // Local servers usually need no key, but the SDK requires one
+        return new OpenAIProvider("openai_compatible", new OpenAI({ apiKey: settings.apiKey || "none", baseURL: settings.baseUrl }));
+    },
+});
+
+// AI_BASE_URL is the resource endpoint and AI_MODEL the deployment name
+registerAIProvider({
+    id: "azure_openai",
+    aliases: ["azure"],
+    apiKey: env.AZURE_OPENAI_API_KEY,
+    create: settings => {
+        if (!settings.baseUrl) throw new Error("AI_BASE_URL is required for Azure OpenAI (e.g., https://my-resource.openai.azure.com)");
+        return new OpenAIProvider("azure_openai", new AzureOpenAI({
+            apiKey: settings.apiKey,
+            endpoint: settings.baseUrl,
+            apiVersion: env.AZURE_OPENAI_API_VERSION || DEFAULT_AZURE_OPENAI_API_VERSION,
+        }));
+    },
+});
+
+registerAIProvider({
+    id: "anthropic",
+    aliases: ["claude"],
+    apiKey: env.ANTHROPIC_API_KEY,
+    create: settings => new AnthropicProvider(settings),
+});
+
+registerAIProvider({
+    id: "google",
+    aliases: ["gemini"],
+    apiKey: env.GOOGLE_API_KEY,
+    create: settings => new GeminiProvider(settings),
+});
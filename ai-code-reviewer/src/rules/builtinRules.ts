@@ -0,0 +1,156 @@
+import { RuleFile, RuleFinding, StaticRule } from "../interfaces/StaticRule";
+import { overlapsLineRanges } from "../utils/diffUtils";
+import { findFunctions } from "./functionParser";
+import { env } from "../config/envVariables";
+
+/**
+ * Built-in Static Rules
+ * Structural checks that run before the AI review. Thresholds are the defaults; `.anna.yml` can override them per language.
+ */
+
+export const DEFAULT_MAX_FILE_LINES = 1000;
+
+// Calls that print to the console, usually left over from debugging
+const DEBUG_STATEMENTS: Record<string, RegExp> = {
+    typescript: /\bconsole\.(log|debug|trace|dir)\s*\(/,
+    javascript: /\bconsole\.(log|debug|trace|dir)\s*\(/,
+    python: /(^|[^\w.])(print|breakpoint)\s*\(/,
+    java: /\bSystem\.(out|err)\.print(ln|f)?\s*\(|\.printStackTrace\s*\(\s*\)/,
+    csharp: /\bConsole\.Write(Line)?\s*\(/,
+    go: /\bfmt\.Print(ln|f)?\s*\(|(^|[^\w.])println\s*\(/,
+};
+
+// Committed on purpose as documentation of the expected variables
+const ENV_FILE_TEMPLATES = /\.(example|sample|template|dist|defaults)$/i;
+
+/**
+ * Checks whether lines startLine..endLine include a changed line. Without a diff, every line counts as changed.
+ */
+function isChanged(file: RuleFile, startLine: number, endLine: number = startLine): boolean {
+    return file.changedRanges.length === 0 || overlapsLineRanges(startLine, endLine, file.changedRanges);
+}
+
+/**
+ * Returns the numbers (1-based) of the changed lines of the file
+ */
+function getChangedLines(file: RuleFile): number[] {
+    return file.lines.map((_, index) => index + 1).filter(line => isChanged(file, line));
+}
+
+const fileLengthRule: StaticRule = {
+    id: 'file_length',
+    title: 'Architectural Red Flag',
+    defaults: { enabled: true, severity: 'critical', blocking: true, max: DEFAULT_MAX_FILE_LINES, languages: {} },
+    skipsAIReview: true,
+    checkFile(file, max) {
+        if (!max || file.path.toLowerCase().endsWith('.md')) return [];
+
+        // With cleaning, only lines of code count towards the limit
+        const isCleaningEnabled = String(env.ENABLE_CODE_CLEANING).toLowerCase() === 'true';
+        const lineCount = isCleaningEnabled ? file.stats.codeLines : file.stats.totalLines;
+        return lineCount > max ? [{ message: `This file exceeds ${max} lines.` }] : [];
+    }
+};
+
+const functionLengthRule: StaticRule = {
+    id: 'function_length',
+    title: 'Long Function',
+    defaults: { enabled: true, severity: 'major', blocking: false, max: 80, languages: {} },
+    checkFile(file, max) {
+        if (!max) return [];
+        return findFunctions(file.codeLines, file.language)
+            .filter(fn => fn.codeLines > max && isChanged(file, fn.startLine, fn.endLine))
+            .map(fn => ({
+                startLine: fn.startLine,
+                endLine: fn.startLine,
+                message: `\`${fn.name}\` has ${fn.codeLines} lines of code (lines ${fn.startLine}-${fn.endLine}, max ${max}). Split it into smaller functions.`
+            }));
+    }
+};
+
+const nestingDepthRule: StaticRule = {
+    id: 'nesting_depth',
+    title: 'Deep Nesting',
+    defaults: { enabled: true, severity: 'major', blocking: false, max: 4, languages: {} },
+    checkFile(file, max) {
+        if (!max) return [];
+        return findFunctions(file.codeLines, file.language)
+            .filter(fn => fn.maxDepth > max && isChanged(file, fn.startLine, fn.endLine))
+            .map(fn => ({
+                startLine: fn.maxDepthLine,
+                endLine: fn.maxDepthLine,
+                message: `Blocks in \`${fn.name}\` are nested ${fn.maxDepth} levels deep (max ${max}). Use early returns or extract the inner blocks into functions.`
+            }));
+    }
+};
+
+const parameterCountRule: StaticRule = {
+    id: 'parameter_count',
+    title: 'Too Many Parameters',
+    defaults: { enabled: true, severity: 'major', blocking: false, max: 5, languages: {} },
+    checkFile(file, max) {
+        if (!max) return [];
+        return findFunctions(file.codeLines, file.language)
+            .filter(fn => fn.parameters > max && isChanged(file, fn.startLine))
+            .map(fn => ({
+                startLine: fn.startLine,
+                endLine: fn.startLine,
+                message: `\`${fn.name}\` takes ${fn.parameters} parameters (max ${max}). Group related parameters into an object.`
+            }));
+    }
+};
+
+const todoCommentRule: StaticRule = {
+    id: 'todo_comments',
+    title: 'Unresolved TODO',
+    defaults: { enabled: true, severity: 'major', blocking: false, languages: {} },
+    checkFile(file) {
+        const findings: RuleFinding[] = [];
+        for (const line of getChangedLines(file)) {
+            // Only markers in comments, not in code or strings
+            const marker = /\b(TODO|FIXME)\b/.exec(file.commentLines[line - 1]);
+            if (marker) {
+                findings.push({ startLine: line, endLine: line, message: `\`${marker[1]}\` added in this change. Resolve it, or track it in an issue and link it here.` });
+            }
+        }
+        return findings;
+    }
+};
+
+const debugStatementRule: StaticRule = {
+    id: 'debug_statements',
+    title: 'Debug Statement',
+    defaults: { enabled: true, severity: 'major', blocking: false, languages: {} },
+    checkFile(file) {
+        const pattern = DEBUG_STATEMENTS[file.language || ''];
+        if (!pattern) return [];
+
+        return getChangedLines(file)
+            .filter(line => pattern.test(file.codeLines[line - 1]))
+            .map(line => ({ startLine: line, endLine: line, message: 'Debug output left in the code. Remove it or use the project\'s logger.' }));
+    }
+};
+
+// Deleting a committed environment file is the fix, and deleted files never reach the path rules
+const envFileRule: StaticRule = {
+    id: 'env_files',
+    title: 'Committed Environment File',
+    defaults: { enabled: true, severity: 'critical', blocking: true, languages: {} },
+    checkPath(path) {
+        const fileName = path.split('/').pop() || '';
+        const isEnvFile = /^\.env(\..+)?$/i.test(fileName) || /\.env$/i.test(fileName);
+        if (!isEnvFile || ENV_FILE_TEMPLATES.test(fileName)) return [];
+
+        return [{ message: 'Environment files usually hold secrets. Remove it from the repository, rotate the secrets it contains and add it to `.gitignore` (commit a `.env.example` instead).' }];
+    }
+};
+
+export const BUILTIN_RULES: StaticRule[] = [
+    fileLengthRule,
+    functionLengthRule,
+    nestingDepthRule,
+    parameterCountRule,
+    todoCommentRule,
+    debugStatementRule,
+    envFileRule,
+];
@@ -0,0 +1,305 @@
+/**
+ * Function Parser
+ * Finds functions, their length, nesting depth and parameters in code with comments removed and literals blanked out
+ * (see analyzeCode). Brace languages are parsed by matching braces, Python by indentation. This is a heuristic, not
+ * a full parser: it only needs to be right about the code shapes that the structural rules report on.
+ */
+
+export interface FunctionInfo {
+    name: string;
+    startLine: number;      // Line of the signature (1-based)
+    endLine: number;        // Line of the closing brace, or the last line of the body
+    codeLines: number;      // Lines with code between startLine and endLine
+    parameters: number;
+    maxDepth: number;       // Deepest block nesting inside the body (0 = no nested blocks)
+    maxDepthLine: number;   // Line of the statement opening the deepest block
+}
+
+const BRACE_LANGUAGES = new Set(['typescript', 'javascript', 'csharp', 'java', 'go', 'c', 'cpp']);
+
+// Statements followed by a block that are not functions
+const CONTROL_KEYWORDS = new Set([
+    'if', 'else', 'for', 'foreach', 'while', 'do', 'switch', 'case', 'default', 'try', 'catch', 'finally',
+    'using', 'lock', 'synchronized', 'with', 'fixed', 'unsafe', 'checked', 'unchecked', 'select',
+]);
+
+const TYPE_DECLARATION = /\b(class|interface|struct|enum|namespace|record|new)\b/;
+const FUNCTION_KEYWORD = /\bfunc(?:tion)?\b\s*\*?\s*(\([^()]*\)\s*)?([\w$]*)\s*(?:[<[][^()]*[>\]])?\s*\(/;    // JS function, Go func (with receiver)
+const METHOD_NAME = /([\w$~]+)\s*(?:<[^()]*>)?\s*\(/;
+const METHOD_MODIFIERS = /^[\w$\s<>[\],.?*&:~]*$/;      // Modifiers, return type and owner before a method name
+const AFTER_PARAMETERS = /^\s*(?::[^]*|throws\b[^]*|where\b[^]*|->[^]*|const|noexcept|override|final)?\s*$/;    // Return type, throws, C# base call...
+
+/**
+ * Returns the position of the bracket closing the one at `open`, or -1
+ */
+function findClosing(text: string, open: number): number {
+    let depth = 0;
+    for (let i = open; i < text.length; i++) {
+        if (text[i] === '(') depth++;
+        if (text[i] === ')' && --depth === 0) return i;
+    }
+    return -1;
+}
+
+/**
+ * Counts the comma-separated parameters of a parameter list (without the parentheses)
+ */
+function countParameters(list: string): number {
+    const parameters: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (let i = 0; i < list.length; i++) {
+        const ch = list[i];
+        if ('([{<'.includes(ch)) depth++;
+        if (')]}'.includes(ch) || (ch === '>' && list[i - 1] !== '=')) depth--;
+        if (ch === ',' && depth === 0) {
+            parameters.push(current);
+            current = '';
+        } else {
+            current += ch;
+        }
+    }
+    parameters.push(current);
+
+    // The receiver of Python methods, TypeScript "this" typing and Python's "*" and "/" markers are not parameters
+    return parameters
+        .map(parameter => parameter.trim())
+        .filter(parameter => parameter && !/^(self|cls|\*|\/)$/.test(parameter) && !/^this\s*:/.test(parameter))
+        .length;
+}
+
+/**
+ * Returns the position of the first non-whitespace character at or after `from`
+ */
+function skipWhitespace(text: string, from: number): number {
+    while (from < text.length && /\s/.test(text[from])) from++;
+    return from;
+}
+
+/**
+ * Returns the start of the code that leads up to the "{" at `brace`: the statement or expression it belongs to.
+ * Stops at the previous statement, block or unmatched bracket, or at a comma separating it from another argument.
+ */
+function findHeaderStart(text: string, brace: number): number {
+    let depth = 0;
+    for (let i = brace - 1; i >= 0; i--) {
+        const ch = text[i];
+        // A "}" right before a ">" or the brace itself closes an object type in a signature (e.g., "): Promise<{ ok: boolean }> {")
+        const next = skipWhitespace(text, i + 1);
+        const isObjectType = ch === '}' && (text[next] === '>' || next === brace);
+        if (ch === ')' || ch === ']' || isObjectType) {
+            depth++;
+        } else if (ch === '(' || ch === '[' || (ch === '{' && depth > 0)) {
+            if (depth === 0) return i + 1;
+            depth--;
+        } else if (depth === 0 && ';{},'.includes(ch)) {
+            return i + 1;
+        }
+    }
+    return 0;
+}
+
+/**
+ * Checks whether the code after a parameter list can end a signature: every "<" of the return type is closed,
+ * and no return type is still expected (in "): {", the brace opens an object type, not the body)
+ */
+function isSignatureEnd(rest: string): boolean {
+    const isTypeComplete = (rest.match(/</g) || []).length <= (rest.match(/(?<![=-])>/g) || []).length;
+    return isTypeComplete && !/:\s*$/.test(rest);
+}
+
+/**
+ * Recognizes a function from the code before its "{". Returns its name and parameter count, or undefined.
+ */
+function parseSignature(header: string): { name: string; parameters: number; offset: number } | undefined {
+    // Drop decorators, annotations and attributes
+    const offset = header.length - header.replace(/^(\s*(@[\w$.]+(\s*\([^()]*\))?|\[[^\]]*\]))*\s*/, '').length;
+    const signature = header.slice(offset).trimEnd();
+    if (!signature) return undefined;
+
+    // Arrow function or lambda: (a, b) => {, a => {, (a, b) -> {
+    if (/(=>|->)$/.test(signature)) {
+        // The parameter list is the last "(...)" before the arrow, possibly followed by a return type
+        const body = signature.slice(0, -2).trimEnd();
+        let parameters = 1;
+        const close = [...body.matchAll(/\)/g)].map(match => match.index!).reverse()
+            .find(position => /^\s*(?::[^()]*)?$/.test(body.slice(position + 1)));
+        if (close !== undefined) {
+            let depth = 0;
+            for (let i = close; i >= 0; i--) {
+                if (body[i] === ')') depth++;
+                if (body[i] === '(' && --depth === 0) {
+                    parameters = countParameters(body.slice(i + 1, close));
+                    break;
+                }
+            }
+        }
+        const name = /([\w$]+)\s*(?::[^=]*)?[=:]\s*(?:async\s*)?(?:\(|[\w$]+\s*(?:=>|->))/.exec(signature)?.[1];
+        return { name: name || 'anonymous function', parameters, offset };
+    }
+
+    const firstWord = /^[\w$]+/.exec(signature)?.[0] || '';
+    if (CONTROL_KEYWORDS.has(firstWord)) return undefined;
+
+    // function name(...) / func (r *T) Name(...)
+    const keyword = FUNCTION_KEYWORD.exec(signature);
+    if (keyword) {
+        const open = keyword.index + keyword[0].length - 1;
+        const close = findClosing(signature, open);
+        if (close < 0 || !isSignatureEnd(signature.slice(close + 1))) return undefined;
+        // Code before the keyword may be an earlier statement without a semicolon
+        const start = signature.lastIndexOf('\n', keyword.index) + 1;
+        return { name: keyword[2] || 'anonymous function', parameters: countParameters(signature.slice(open + 1, close)), offset: offset + start };
+    }
+
+    // Method or constructor: modifiers, return type, name(...), then an optional return type or throws clause
+    const method = METHOD_NAME.exec(signature);
+    if (!method || CONTROL_KEYWORDS.has(method[1])) return undefined;
+    const prefix = signature.slice(0, method.index);
+    if (!METHOD_MODIFIERS.test(prefix) || TYPE_DECLARATION.test(prefix)) return undefined;
+
+    const open = method.index + method[0].length - 1;
+    const close = findClosing(signature, open);
+    const rest = signature.slice(close + 1);
+    if (close < 0 || !AFTER_PARAMETERS.test(rest) || !isSignatureEnd(rest)) return undefined;
+    return { name: method[1], parameters: countParameters(signature.slice(open + 1, close)), offset };
+}
+
+function countCodeLines(lines: string[], startLine: number, endLine: number): number {
+    return lines.slice(startLine - 1, endLine).filter(line => line.trim() !== '').length;
+}
+
+/**
+ * Finds the functions of a brace language by matching "{" with "}"
+ */
+function findBraceFunctions(lines: string[]): FunctionInfo[] {
+    const text = lines.join('\n');
+    const lineStarts = [0];
+    for (const line of lines) lineStarts.push(lineStarts[lineStarts.length - 1] + line.length + 1);
+    const lineOf = (position: number) => {
+        let low = 0;
+        let high = lineStarts.length - 1;
+        while (low < high) {
+            const middle = Math.ceil((low + high) / 2);
+            if (lineStarts[middle] <= position) low = middle; else high = middle - 1;
+        }
+        return low + 1;
+    };
+
+    const functions: FunctionInfo[] = [];
+    const blocks: { fn?: FunctionInfo; isControl?: boolean }[] = [];   // Open blocks, innermost last
+    const owners: number[] = [];                    // Index in `blocks` of each open function, innermost last
+
+    for (let i = 0; i < text.length; i++) {
+        if (text[i] === '{') {
+            const headerStart = findHeaderStart(text, i);
+            const signature = parseSignature(text.slice(headerStart, i));
+
+            if (signature) {
+                const startLine = lineOf(skipWhitespace(text, headerStart + signature.offset));
+                const fn: FunctionInfo = { name: signature.name, startLine, endLine: startLine, codeLines: 0, parameters: signature.parameters, maxDepth: 0, maxDepthLine: startLine };
+                blocks.push({ fn });
+                owners.push(blocks.length - 1);
+                functions.push(fn);
+            } else {
+                // Only control statements nest; object literals and type bodies don't.
+                // The header may start after a comma (Go: "for _, item := range items {"), so also check its line.
+                const firstWord = (code: string) => /^[\s}]*([\w$]+)/.exec(code)?.[1] || '';
+                const headerLine = text.slice(lineStarts[lineOf(skipWhitespace(text, headerStart)) - 1], i);
+                const isControl = CONTROL_KEYWORDS.has(firstWord(text.slice(headerStart, i))) || CONTROL_KEYWORDS.has(firstWord(headerLine));
+                blocks.push({ isControl });
+                const owner = owners[owners.length - 1];
+                if (owner !== undefined && isControl) {
+                    const fn = blocks[owner].fn!;
+                    const depth = blocks.slice(owner + 1).filter(block => block.isControl).length;
+                    if (depth > fn.maxDepth) {
+                        fn.maxDepth = depth;
+                        fn.maxDepthLine = lineOf(skipWhitespace(text, headerStart));
+                    }
+                }
+            }
+        } else if (text[i] === '}' && blocks.length > 0) {
+            const block = blocks.pop()!;
+            if (block.fn) {
+                owners.pop();
+                block.fn.endLine = lineOf(i);
+                block.fn.codeLines = countCodeLines(lines, block.fn.startLine, block.fn.endLine);
+            }
+        }
+    }
+
+    // Unclosed functions (e.g., unbalanced braces from an unsupported construct) run to the end of the file
+    for (const owner of owners) {
+        const fn = blocks[owner].fn!;
+        fn.endLine = lines.length;
+        fn.codeLines = countCodeLines(lines, fn.startLine, fn.endLine);
+    }
+    return functions;
+}
+
+function indentOf(line: string): number {
+    return line.length - line.trimStart().length;
+}
+
+/**
+ * Finds the functions of Python code by indentation
+ */
+function findPythonFunctions(lines: string[]): FunctionInfo[] {
+    const functions: FunctionInfo[] = [];
+
+    for (let index = 0; index < lines.length; index++) {
+        const def = /^(\s*)(?:async\s+)?def\s+(\w+)\s*\(/.exec(lines[index]);
+        if (!def) continue;
+
+        // The parameter list may span several lines
+        const rest = lines.slice(index).join('\n');
+        const open = def[0].length - 1;
+        const close = findClosing(rest, open);
+        if (close < 0) continue;
+        const signatureEnd = index + rest.slice(0, close).split('\n').length - 1;
+
+        const defIndent = indentOf(lines[index]);
+        let endIndex = signatureEnd;
+        let maxDepth = 0;
+        let maxDepthLine = index + 1;
+        const openers: number[] = [];       // Indents of the enclosing compound statements inside the body
+
+        for (let j = signatureEnd + 1; j < lines.length; j++) {
+            const line = lines[j];
+            if (line.trim() === '') continue;
+            const indent = indentOf(line);
+            if (indent <= defIndent) break;
+            endIndex = j;
+
+            while (openers.length > 0 && openers[openers.length - 1] >= indent) openers.pop();
+            if (line.trimEnd().endsWith(':')) {
+                openers.push(indent);
+                if (openers.length > maxDepth) {
+                    maxDepth = openers.length;
+                    maxDepthLine = j + 1;
+                }
+            }
+        }
+
+        functions.push({
+            name: def[2],
+            startLine: index + 1,
+            endLine: endIndex + 1,
+            codeLines: countCodeLines(lines, index + 1, endIndex + 1),
+            parameters: countParameters(rest.slice(open + 1, close)),
+            maxDepth,
+            maxDepthLine,
+        });
+    }
+    return functions;
+}
+
+/**
+ * Finds the functions of a file. Returns an empty list for languages without a parser.
+ * @param lines Code lines with comments removed and literals blanked out
+ */
+export function findFunctions(lines: string[], language: string | undefined): FunctionInfo[] {
+    if (language === 'python') return findPythonFunctions(lines);
+    if (language && BRACE_LANGUAGES.has(language)) return findBraceFunctions(lines);
+    return [];
+}
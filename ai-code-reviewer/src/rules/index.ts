@@ -0,0 +1,86 @@
+import { ReviewComment } from "../interfaces/PlatformAdapter";
+import { RuleFile, RuleFinding, RuleSettings, StaticRule } from "../interfaces/StaticRule";
+import { analyzeCode, getLanguage } from "../utils/codeCleaner";
+import { getChangedLineRanges } from "../utils/diffUtils";
+import { BUILTIN_RULES } from "./builtinRules";
+
+export { DEFAULT_MAX_FILE_LINES } from "./builtinRules";
+
+/**
+ * Static Rule Engine
+ * Runs the registered rules on the changed files before the AI review and turns their findings into review comments.
+ * To add a rule, implement StaticRule and register it in STATIC_RULES; it is then configurable in `.anna.yml`.
+ */
+
+export const STATIC_RULES: StaticRule[] = [...BUILTIN_RULES];
+
+/**
+ * Rule id -> settings overriding the rule's defaults (the `rules` section of `.anna.yml`)
+ */
+export type RuleOverrides = Record<string, Partial<RuleSettings>>;
+
+export interface StaticRuleFinding {
+    rule: StaticRule;
+    blocking: boolean;          // The finding requests changes
+    comment: ReviewComment;
+}
+
+const SEVERITY_ICONS: Record<string, string> = { critical: '🔴', major: '🟡' };
+
+/**
+ * Returns the effective settings of a rule. Per-language thresholds are merged, so overriding one language keeps the others.
+ */
+export function getRuleSettings(rule: StaticRule, overrides: RuleOverrides): RuleSettings {
+    const override = overrides[rule.id] || {};
+    return { ...rule.defaults, ...override, languages: { ...rule.defaults.languages, ...override.languages } };
+}
+
+/**
+ * Prepares a changed file for the content rules
+ */
+export function createRuleFile(path: string, content: string, diff: string): RuleFile {
+    return {
+        path,
+        language: getLanguage(path),
+        lines: content.split(/\r?\n/),
+        ...analyzeCode(content, path),
+        changedRanges: getChangedLineRanges(diff),
+    };
+}
+
+function toFinding(rule: StaticRule, settings: RuleSettings, path: string, finding: RuleFinding): StaticRuleFinding {
+    return {
+        rule,
+        blocking: settings.blocking,
+        comment: {
+            filePath: path,
+            startLine: finding.startLine,
+            endLine: finding.endLine,
+            severity: settings.severity,
+            comment: `${SEVERITY_ICONS[settings.severity]} **${rule.title}**: ${finding.message}`
+        }
+    };
+}
+
+/**
+ * Runs the path rules on a changed file. Meant for every changed file, including the ones skipped by the ignore rules.
+ */
+export function runPathRules(path: string, overrides: RuleOverrides): StaticRuleFinding[] {
+    return STATIC_RULES.flatMap(rule => {
+        const settings = getRuleSettings(rule, overrides);
+        if (!settings.enabled || !rule.checkPath) return [];
+        return rule.checkPath(path).map(finding => toFinding(rule, settings, path, finding));
+    });
+}
+
+/**
+ * Runs the content rules on a changed file, with each rule's threshold for the file's language
+ */
+export function runFileRules(file: RuleFile, overrides: RuleOverrides): StaticRuleFinding[] {
+    return STATIC_RULES.flatMap(rule => {
+        const settings = getRuleSettings(rule, overrides);
+        if (!settings.enabled || !rule.checkFile) return [];
+        const max = (file.language && settings.languages[file.language]) || settings.max;
+        return rule.checkFile(file, max).map(finding => toFinding(rule, settings, file.path, finding));
+    });
+}
@@ -1,11 +1,118 @@
 import { InvocationContext } from "@azure/functions";
-import { PlatformAdapter, ReviewStatus } from "../interfaces/PlatformAdapter";
-import { reviewWithAI } from "../utils/aiClient";
-import { shouldIgnoreFile } from "../config/ignoreFiles";
-import { cleanCodeContent } from "../utils/codeCleaner";
+import { BotThread, ExistingComment, PlatformAdapter, REVIEW_STATUSES, ReviewComment, ReviewStatus } from "../interfaces/PlatformAdapter";
+import { AIReviewComment, assessPullRequest, checkFixedIssues, planReviewContext, reviewBatchWithAI, reviewWithAI } from "../utils/aiClient";
+import { InvalidReviewResponseError } from "../utils/reviewSchema";
+import { DEFAULT_IGNORE_RULES, findIgnoreRule, IgnoreRule, parseGitAttributes, parseIgnoreRules, shouldIgnoreFile } from "../config/ignoreFiles";
+import { applyApprovalPolicy, countFindings } from "../config/approvalPolicy";
+import { formatRepoConfigErrors, getDefaultRepoConfig, matchesAnyGlob, parseRepoConfig, RepoConfig, REPO_CONFIG_FILE, Severity, SEVERITY_LEVELS } from "../config/repoConfig";
+import { createRuleFile, RuleOverrides, runFileRules, runPathRules, StaticRuleFinding } from "../rules";
+import { getChangedLineRanges, overlapsLineRanges } from "../utils/diffUtils";
+import { estimateTokens } from "../utils/tokenEstimator";
+import { textSimilarity } from "../utils/textSimilarity";
+import { sanitizeSuggestion } from "../utils/suggestions";
+import { AppliedGuidelines, getConfiguredGuidelinePaths, getNearestGuidelineCandidates, isSameGuidelinePath, mergeGuidelines } from "../utils/reviewGuidelines";
+import { buildReviewSummary } from "../utils/reviewSummary";
+import { ReviewOutcome } from "../utils/reviewOutcome";
+import { getReviewAttempt, REVIEW_MAX_ATTEMPTS } from "../utils/reviewQueue";
+import { generateCodeMap } from "../utils/codeMapGenerator";
+import { PreviousIssue, RepoContext, ReviewerPersona, ReviewFile } from "../prompts/reviewPrompts";
 import { env } from "../config/envVariables";
 
+const DEFAULT_MAX_BATCH_TOKENS = 60000;
+const DEFAULT_MAX_CONTEXT_FILES = 10;
+const DEFAULT_MAX_CONTEXT_TOKENS = 30000;
+const DUPLICATE_SIMILARITY_THRESHOLD = 0.5;     // Word overlap above which a comment repeats an existing one
+const SEVERITY_PRIORITY: Record<string, number> = { critical: 0, major: 1, minor: 2 };
+const SEVERITY_BY_ICON: Record<string, string> = { '🔴': 'critical', '🟡': 'major', '🟢': 'minor' };
+
+/**
+ * The comments of one reviewer persona, and the files it could not review with the reason
+ */
+interface PersonaReview {
+    persona: ReviewerPersona;
+    comments: ReviewComment[];
+    failed: Map<string, string>;
+}
+
+/**
+ * AzDo paths start with "/" while the AI may omit it, so compare paths without the leading slash
+ */
+function normalizePath(path?: string): string {
+    return (path || '').replace(/^\/+/, '');
+}
+
+/**
+ * Checks whether a new comment points at the same file and lines as an existing thread or comment
+ */
+function isSameLocation(comment: ReviewComment, existing: BotThread | ExistingComment): boolean {
+    if (!existing.path || normalizePath(comment.filePath) !== normalizePath(existing.path)) return false;
+    if (!comment.endLine || !existing.endLine) return !comment.endLine && !existing.endLine;
+    return overlapsLineRanges(comment.startLine || comment.endLine, comment.endLine, [{ start: existing.startLine || existing.endLine, end: existing.endLine }]);
+}
+
+/**
+ * Number of leading directories a path shares with the nearest changed file
+ */
+function getPathProximity(path: string, changedDirs: string[][]): number {
+    const dirs = normalizePath(path).split('/').slice(0, -1);
+    let best = 0;
+    for (const changed of changedDirs) {
+        let shared = 0;
+        while (shared < dirs.length && shared < changed.length && dirs[shared] === changed[shared]) shared++;
+        best = Math.max(best, shared);
+    }
+    return best;
+}
+
+/**
+ * Picks the repository paths listed in the planning prompt: the ones nearest to the changed files first,
+ * until the token budget is used. Returns them in their original order.
+ */
+function selectPlanningPaths(paths: string[], reviewFiles: ReviewFile[], maxTokens: number): string[] {
+    const changedDirs = reviewFiles.map(f => normalizePath(f.fileName).split('/').slice(0, -1));
+    const byProximity = paths
+        .map((path, index) => ({ path, index, proximity: getPathProximity(path, changedDirs) }))
+        .sort((a, b) => b.proximity - a.proximity || a.index - b.index);
+
+    const selected: typeof byProximity = [];
+    let totalTokens = 0;
+    for (const candidate of byProximity) {
+        const tokens = estimateTokens(candidate.path + '\n');
+        if (totalTokens + tokens > maxTokens) break;
+        selected.push(candidate);
+        totalTokens += tokens;
+    }
+    return selected.sort((a, b) => a.index - b.index).map(c => c.path);
+}
+
+/**
+ * Severity of an earlier thread, from the first severity icon of its comment (minor if it has none)
+ */
+function getThreadSeverity(thread: BotThread): string {
+    const icon = thread.comment.match(/🔴|🟡|🟢/u)?.[0];
+    return icon ? SEVERITY_BY_ICON[icon] : 'minor';
+}
+
+/**
+ * Orders comments by severity priority (critical first, then major, then minor)
+ */
+function bySeverity(a: ReviewComment, b: ReviewComment): number {
+    return (SEVERITY_PRIORITY[a.severity] ?? 3) - (SEVERITY_PRIORITY[b.severity] ?? 3);
+}
+
+/**
+ * Checks whether two new comments are on the same file and overlapping lines
+ */
+function isOverlapping(a: ReviewComment, b: ReviewComment): boolean {
+    if (normalizePath(a.filePath) !== normalizePath(b.filePath)) return false;
+    if (!a.endLine || !b.endLine) return !a.endLine && !b.endLine;
+    return overlapsLineRanges(a.startLine || a.endLine, a.endLine, [{ start: b.startLine || b.endLine, end: b.endLine }]);
+}
+
 export class ReviewService {
+    private config: RepoConfig = getDefaultRepoConfig();
+    private ignoreRules: IgnoreRule[] = DEFAULT_IGNORE_RULES;
+
     constructor(private platform: PlatformAdapter) { }
 
     async reviewPullRequest(context: InvocationContext): Promise<void> {
@@ -24,109 +131,702 @@ export class ReviewService {
             return;
         }
 
+        let isLocked = false;
         try {
             context.log(`[LOCK] Locking PR to prevent race conditions`);
             await this.platform.lockPR();
+            isLocked = true;
         } catch (err: any) {
             context.log(`[LOCK] Failed to lock PR: ${err.message}`);
         }
 
+        try {
+            await this.runReview(context);
+        } catch (err: any) {
+            // Release the lock so shouldProcessPR() accepts the queue's retry of this job
+            if (isLocked) {
+                try {
+                    context.log(`[LOCK] Review failed, unlocking PR for retry`);
+                    await this.platform.unlockPR();
+                } catch (unlockErr: any) {
+                    context.error(`[LOCK] Failed to unlock PR: ${unlockErr.message}`);
+                }
+            }
+            throw err;
+        }
+    }
+
+    /**
+     * Reviews the changed files, posts the comments and sets the final status
+     */
+    private async runReview(context: InvocationContext): Promise<void> {
         context.log(`[FILES] Fetching changed files`);
         const files = await this.platform.getChangedFiles();
         context.log(`[FILES] Found ${files.length} changed files`);
 
-        if (files.length === 0) return;
+        const lastReviewedCommit = this.platform.getLastReviewedCommit?.();
+        if (lastReviewedCommit) {
+            context.log(`[INCREMENTAL] Reviewing only the changes since the last reviewed commit ${lastReviewedCommit}`);
+        }
 
-        // Fetch custom guidelines from repo if configured
-        let repoGuidelines: string = null;
-        if (env.AI_REVIEW_GUIDELINES) {
-            try {
-                // Use the commitId of the first file to fetch the guidelines from the same version of code
-                repoGuidelines = await this.platform.getFileContent(env.AI_REVIEW_GUIDELINES, files[0].commitId);
-                if (repoGuidelines && repoGuidelines.trim().length > 0) {
-                    context.log(`[CONFIG] Using custom rules from repo: ${env.AI_REVIEW_GUIDELINES}`);
-                } else if (repoGuidelines && repoGuidelines.trim().length === 0) {
-                    context.log(`[CONFIG] Custom rules file is empty at ${env.AI_REVIEW_GUIDELINES}, using defaults.`);
-                } else {
-                    context.log(`[CONFIG] No custom rules found at ${env.AI_REVIEW_GUIDELINES}, using defaults.`);
-                }
-            } catch (err) {
-                context.log(`[CONFIG] Error fetching custom rules at ${env.AI_REVIEW_GUIDELINES}, using defaults.`);
-            }
-        } else {
-            context.log(`[CONFIG] No custom rules configured, using defaults.`);
+        // Fetch the repository settings and guidelines from the same version of code as the files
+        const headCommit = files[0]?.commitId ?? this.platform.getHeadCommit();
+        if (!headCommit) {
+            context.warn(`[FILES] No changed files and no head commit, unlocking PR`);
+            await this.platform.unlockPR();
+            return;
         }
+        // Still submit a review when nothing changed (e.g., a merge that touched only files outside the PR),
+        // so the lock is replaced by a status and the head is recorded as reviewed
+        if (files.length === 0) {
+            context.log(`[FILES] No changed files to review, recording ${headCommit} as reviewed`);
+        }
+        this.config = await this.loadRepoConfig(headCommit, context);
+        this.ignoreRules = await this.loadIgnoreRules(headCommit, context);
 
-        let hasRedFlags = false;
-        let hasIssues = false;
-        const MAX_REVIEW_COMMENTS = env.MAX_REVIEW_COMMENTS ? parseInt(env.MAX_REVIEW_COMMENTS, 10) : undefined;
-        const SEVERITY_PRIORITY: Record<string, number> = { critical: 0, major: 1, minor: 2 };
+        let blockingCount = 0;      // Blocking static rule findings (red flags)
+        const MAX_REVIEW_COMMENTS = this.config.maxComments;
 
         // Collect all comments from all files first
-        const allComments: { filePath: string; startLine?: number; endLine?: number; severity: string; comment: string }[] = [];
+        const allComments: ReviewComment[] = [];
+
+        // Files that passed the ignore list and static rule checks, ready for AI review
+        const reviewFiles: ReviewFile[] = [];
+        const outcome = new ReviewOutcome();
+
+        // `max_file_lines` is a shorthand for the file_length rule's threshold
+        const ruleOverrides: RuleOverrides = {
+            ...this.config.rules,
+            file_length: { max: this.config.maxFileLines, ...this.config.rules.file_length }
+        };
 
         for (const file of files) {
-            if (shouldIgnoreFile(file.path)) {
-                context.log(`[SKIP] Ignoring file: ${file.path}`);
+            // Path rules run before the ignore rules, so e.g. a committed .env file is reported even though it is not reviewed
+            const pathFindings = runPathRules(file.path, ruleOverrides);
+            blockingCount += this.collectRuleFindings(pathFindings, allComments, context);
+
+            const ignoreRule = findIgnoreRule(file.path, this.ignoreRules);
+            if (ignoreRule && !ignoreRule.negated) {
+                context.log(`[SKIP] Ignoring file: ${file.path} (rule "${ignoreRule.text}" from ${ignoreRule.source})`);
+                outcome.set(file.path, 'ignored');
+                continue;
+            }
+            if (ignoreRule) {
+                context.log(`[FILES] Reviewing ${file.path}, re-included by rule "${ignoreRule.text}" from ${ignoreRule.source}`);
+            }
+            if (this.config.include.length > 0 && !matchesAnyGlob(file.path, this.config.include)) {
+                context.log(`[SKIP] Ignoring file: ${file.path} (not matched by ${REPO_CONFIG_FILE} include: ${this.config.include.join(', ')})`);
+                outcome.set(file.path, 'ignored');
                 continue;
             }
 
             try {
                 const content = await this.platform.getFileContent(file.path, file.commitId);
-                const isCleaningEnabled = String(env.ENABLE_CODE_CLEANING).toLowerCase() === 'true';
-                const cleanedContent = isCleaningEnabled ? cleanCodeContent(content, file.path) : content;
-                const cleanedLineCount = cleanedContent.split('\n').length;
-
-                const isMarkdown = file.path.toLowerCase().endsWith('.md');
-                if (cleanedLineCount > 1000 && !isMarkdown) {
-                    hasRedFlags = true;
-                    allComments.push({
-                        filePath: file.path,
-                        severity: 'critical',
-                        comment: "🔴 **Architectural Red Flag**: This file exceeds 1000 lines."
-                    });
-                    context.log(`[REVIEW] File ${file.path} exceeds 1000 lines — red flag added`);
+                // Rules and the AI review look only at the added/modified lines when a diff is available
+                const diff = await this.platform.getFileDiff(file, content);
+                const ruleFile = createRuleFile(file.path, content, diff);
+                const { stats } = ruleFile;
+                context.log(`[FILES] ${file.path}: ${stats.codeLines} code, ${stats.commentLines} comment, ${stats.blankLines} blank lines`);
+
+                const findings = runFileRules(ruleFile, ruleOverrides);
+                blockingCount += this.collectRuleFindings(findings, allComments, context);
+
+                const skippingRule = findings.find(f => f.rule.skipsAIReview)?.rule;
+                if (skippingRule) {
+                    outcome.set(file.path, 'oversized');
+                    context.log(`[REVIEW] File ${file.path} flagged by the ${skippingRule.id} rule, not sent to the AI`);
                 } else {
-                    context.log(`[AI] Reviewing file: ${file.path} (${cleanedLineCount} lines)`);
-                    const aiReviews = await reviewWithAI(file.path, content, repoGuidelines);
-                    if (aiReviews.length > 0) {
-                        hasIssues = true;
-                        for (const review of aiReviews) {
-                            allComments.push({
-                                filePath: file.path,
-                                startLine: review.startLine,
-                                endLine: review.endLine,
-                                severity: review.severity,
-                                comment: review.comment
-                            });
-                        }
-                        context.log(`[AI] Found ${aiReviews.length} issues in ${file.path}`);
-                    } else {
-                        context.log(`[AI] No issues found in ${file.path}`);
-                    }
+                    reviewFiles.push({ fileName: file.path, content, diff });
                 }
             } catch (err: any) {
-                context.error(`[REVIEW] Failed to review ${file.path}: ${err.message}`);
+                outcome.set(file.path, 'failed', 'the file could not be fetched');
+                context.error(`[REVIEW] Failed to fetch ${file.path}: ${err.message}`);
             }
-            await new Promise(resolve => setTimeout(resolve, 1000));
         }
 
+        // Guidelines per file: the global file, path-scoped files and the nearest REVIEW_GUIDELINES.md
+        const fileGuidelines = await this.resolveGuidelines(reviewFiles, headCommit, context);
+
+        // Read-only repository context: code map (codemap, agentic) and AI-requested files (agentic)
+        const repoContext: RepoContext = {};
+        if (['codemap', 'agentic'].includes(env.CONTEXT_MODE) && reviewFiles.length > 0) {
+            const repoPaths = await this.getRepoFilePaths(headCommit, context);
+
+            if (repoPaths.length > 0) {
+                repoContext.codeMap = await this.buildCodeMap(repoPaths, headCommit, context);
+                if (env.CONTEXT_MODE === 'agentic') {
+                    repoContext.contextFiles = await this.fetchRequestedContext(reviewFiles, repoPaths, repoContext.codeMap, headCommit, context);
+                }
+            }
+        }
+
+        // Every persona reviews the files, in parallel, and their findings are merged
+        const personas = this.config.personas;
+        if (personas.length > 1) {
+            context.log(`[PERSONAS] Reviewing as ${personas.map(p => p.name).join(', ')}`);
+        }
+        const personaReviews = reviewFiles.length > 0
+            ? await Promise.all(personas.map(persona => this.reviewAsPersona(persona, reviewFiles, fileGuidelines, repoContext, context)))
+            : [];
+
+        for (const file of reviewFiles) {
+            const failedReview = personaReviews.find(review => review.failed.has(file.fileName));
+            if (failedReview) {
+                const reason = failedReview.failed.get(file.fileName)!;
+                outcome.set(file.fileName, 'failed', personas.length > 1 ? `${reason} (${failedReview.persona.name})` : reason);
+            } else {
+                outcome.set(file.fileName, 'reviewed');
+            }
+        }
+        allComments.push(...this.mergePersonaComments(personaReviews, context));
+
+        // Under the retry policy, fail the job before posting anything so the queue reviews the PR again later
+        const attempt = getReviewAttempt(context);
+        if (!outcome.isComplete) {
+            const failedPaths = outcome.failed.map(f => f.path).join(', ');
+            context.warn(`[REVIEW] Incomplete review, ${outcome.failed.length} files could not be reviewed: ${failedPaths}`);
+            if (this.config.incompleteReview === 'retry') {
+                if (attempt < REVIEW_MAX_ATTEMPTS) {
+                    throw new Error(`Incomplete review (${failedPaths}), retrying (attempt ${attempt} of ${REVIEW_MAX_ATTEMPTS})`);
+                }
+                context.warn(`[REVIEW] Last attempt (${attempt} of ${REVIEW_MAX_ATTEMPTS}), leaving the review as waiting`);
+            }
+        }
+
+        // Resolve earlier threads whose issue is fixed, and don't repeat the ones that are still open
+        const openThreads = await this.resolveFixedThreads(reviewFiles, context);
+        const unraisedComments = allComments.filter(comment => !openThreads.some(thread => isSameLocation(comment, thread)));
+        if (unraisedComments.length < allComments.length) {
+            context.log(`[THREADS] Skipped ${allComments.length - unraisedComments.length} comments already raised in open threads`);
+        }
+
+        // Skip comments that repeat an existing comment on the same lines (webhook fired twice, or a human said it already)
+        const existingComments = await this.getExistingComments(context);
+        const newComments = unraisedComments.filter(comment => !existingComments.some(existing =>
+            isSameLocation(comment, existing) && textSimilarity(comment.comment, existing.body) >= DUPLICATE_SIMILARITY_THRESHOLD
+        ));
+        if (newComments.length < unraisedComments.length) {
+            context.log(`[DEDUPE] Skipped ${unraisedComments.length - newComments.length} comments that duplicate existing PR comments`);
+        }
+        const skippedCount = allComments.length - newComments.length;
+
         // Sort by severity priority (critical first, then major, then minor)
-        allComments.sort((a, b) => (SEVERITY_PRIORITY[a.severity] ?? 3) - (SEVERITY_PRIORITY[b.severity] ?? 3));
+        newComments.sort(bySeverity);
 
         // Post only the top N most critical comments or post all if no limit
         const topComments = MAX_REVIEW_COMMENTS !== undefined
-            ? allComments.slice(0, MAX_REVIEW_COMMENTS)
-            : allComments;
+            ? newComments.slice(0, MAX_REVIEW_COMMENTS)
+            : newComments;
+
+        context.log(`[REVIEW] Collected ${newComments.length} total comments, posting ${topComments.length}`);
+
+        // Every finding of this review counts, including the ones already raised in earlier reviews, and so do the
+        // threads still open from earlier reviews (e.g., on files an incremental review did not look at)
+        const carriedThreads = openThreads.filter(thread => !allComments.some(comment => isSameLocation(comment, thread)));
+        const findings = [...allComments, ...carriedThreads.map(thread => ({ severity: getThreadSeverity(thread) }))];
+        const approval = applyApprovalPolicy(this.config.approval, countFindings(findings, blockingCount));
+        const status = this.getReviewStatus(approval.status, outcome);
+        context.log(`[REVIEW] Approval policy ${this.config.approval.name}: ${approval.rule} -> ${approval.status}`);
+        const summary = buildReviewSummary({
+            status,
+            approval: { policy: this.config.approval.name, ...approval },
+            findings: newComments,
+            postedCount: topComments.length,
+            maxComments: MAX_REVIEW_COMMENTS,
+            duplicateCount: skippedCount,
+            outcome,
+            attempts: this.config.incompleteReview === 'retry' && !outcome.isComplete ? attempt : undefined,
+            guidelineFiles: [...new Set([...fileGuidelines.values()].flatMap(g => g.paths))],
+            lastReviewedCommit,
+            assessment: await this.getAssessment(reviewFiles, newComments, context),
+            provider: env.AI_PROVIDER,
+            model: this.config.model,
+            personas: personas.length > 1
+                ? personas.map(p => p.model ? `${p.name} (${p.provider || env.AI_PROVIDER} · ${p.model})` : p.name)
+                : undefined
+        });
+        await this.platform.submitReview(topComments, status, summary);
+        context.log(`[FINAL] Review completed with status: ${status}`);
+    }
+
+    /**
+     * Reviews the files as one persona, with its own provider and model if it sets them.
+     * Returns the persona's comments and the files it could not review, with the reason.
+     */
+    private async reviewAsPersona(
+        persona: ReviewerPersona,
+        reviewFiles: ReviewFile[],
+        fileGuidelines: Map<string, AppliedGuidelines>,
+        repoContext: RepoContext,
+        context: InvocationContext
+    ): Promise<PersonaReview> {
+        const model = persona.model || this.config.model;
+        const by = this.config.personas.length > 1 ? ` by the ${persona.name}` : '';
+        const comments: ReviewComment[] = [];
+        const failed = new Map<string, string>();
+
+        // Batch review is the base of every context mode (batch, codemap, agentic).
+        // A prompt holds one set of guidelines, so files are batched per set of guidelines.
+        const isBatchMode = ['batch', 'codemap', 'agentic'].includes(env.CONTEXT_MODE);
+        const unbatchedFiles: ReviewFile[] = isBatchMode ? [] : [...reviewFiles];
+
+        if (isBatchMode) {
+            const maxBatchTokens = env.MAX_BATCH_TOKENS ? parseInt(env.MAX_BATCH_TOKENS, 10) : DEFAULT_MAX_BATCH_TOKENS;
+            const contextText = (repoContext.codeMap || '') + (repoContext.contextFiles || []).map(f => f.content).join('\n');
+
+            const batches = new Map<string, ReviewFile[]>();
+            for (const file of reviewFiles) {
+                const key = fileGuidelines.get(file.fileName)!.paths.join('\n');
+                batches.set(key, [...(batches.get(key) || []), file]);
+            }
+
+            for (const batchFiles of batches.values()) {
+                const batchTokens = estimateTokens(batchFiles.map(f => f.content + (f.diff || '')).join('\n') + contextText);
+                if (batchTokens > maxBatchTokens) {
+                    context.log(`[AI] Batch of ~${batchTokens} tokens exceeds MAX_BATCH_TOKENS (${maxBatchTokens}), falling back to per-file review`);
+                    unbatchedFiles.push(...batchFiles);
+                    continue;
+                }
+
+                try {
+                    context.log(`[AI] Reviewing ${batchFiles.length} files in one batch${by} (~${batchTokens} tokens)`);
+                    const batchGuidelines = fileGuidelines.get(batchFiles[0].fileName)!.text;
+                    const aiReviews = await reviewBatchWithAI(batchFiles, batchGuidelines, repoContext, model, persona);
+
+                    for (const file of batchFiles) {
+                        const fileReviews = aiReviews.filter(r => normalizePath(r.filePath) === normalizePath(file.fileName));
+                        this.collectFileComments(file, fileReviews, comments, context);
+                    }
+
+                    const unmatched = aiReviews.filter(r => !batchFiles.some(f => normalizePath(f.fileName) === normalizePath(r.filePath)));
+                    if (unmatched.length > 0) {
+                        context.log(`[AI] Dropped ${unmatched.length} batch comments referencing files outside the batch`);
+                    }
+                } catch (err: any) {
+                    context.error(`[AI] Batch review${by} failed, falling back to per-file review: ${err.message}`);
+                    unbatchedFiles.push(...batchFiles);
+                }
+            }
+        }
 
-        context.log(`[REVIEW] Collected ${allComments.length} total comments, posting ${topComments.length}`);
+        for (const file of unbatchedFiles) {
+            try {
+                const lineCount = file.content.split('\n').length;
+                const scope = getChangedLineRanges(file.diff).length > 0 ? 'changed lines only' : 'full file';
+                context.log(`[AI] Reviewing file${by}: ${file.fileName} (${lineCount} lines, ${scope})`);
 
-        for (const comment of topComments) {
-            await this.platform.postComment(comment.filePath, comment.startLine, comment.endLine, comment.comment);
+                const guidelines = fileGuidelines.get(file.fileName)!.text;
+                const aiReviews = await reviewWithAI(file.fileName, file.content, guidelines, file.diff, repoContext, model, persona);
+                this.collectFileComments(file, aiReviews, comments, context);
+            } catch (err: any) {
+                if (err instanceof InvalidReviewResponseError) {
+                    failed.set(file.fileName, 'the AI response could not be parsed');
+                    context.error(`[AI] Could not parse the review of ${file.fileName}${by}, marking it as not reviewed: ${err.errors.join('; ')}`);
+                } else {
+                    failed.set(file.fileName, 'the AI request failed');
+                    context.error(`[REVIEW] Failed to review ${file.fileName}${by}: ${err.message}`);
+                }
+            }
+            await new Promise(resolve => setTimeout(resolve, 1000));
         }
 
-        const status: ReviewStatus = hasRedFlags ? 'changes_requested' : hasIssues ? 'commented' : 'approved';
-        await this.platform.setFinalStatus(status);
-        context.log(`[FINAL] Review completed with status: ${status}`);
+        return { persona, comments, failed };
+    }
+
+    /**
+     * Merges the comments of the personas. With several personas, every comment is tagged with its persona,
+     * and comments of different personas on overlapping lines become one comment, on the lines of the most severe one.
+     */
+    private mergePersonaComments(reviews: PersonaReview[], context: InvocationContext): ReviewComment[] {
+        if (reviews.length <= 1) return reviews.flatMap(review => review.comments);
+
+        const tagged = reviews.flatMap(review => review.comments.map(comment => ({
+            personaId: review.persona.id,
+            comment: { ...comment, comment: `**[${review.persona.name}]** ${comment.comment}` }
+        })));
+        tagged.sort((a, b) => bySeverity(a.comment, b.comment));
+
+        const merged: { personaIds: string[]; comment: ReviewComment }[] = [];
+        for (const item of tagged) {
+            const target = merged.find(m => !m.personaIds.includes(item.personaId) && isOverlapping(m.comment, item.comment));
+            if (target) {
+                target.comment.comment += `\n\n${item.comment.comment}`;
+                target.personaIds.push(item.personaId);
+            } else {
+                merged.push({ personaIds: [item.personaId], comment: item.comment });
+            }
+        }
+
+        if (merged.length < tagged.length) {
+            context.log(`[PERSONAS] Merged ${tagged.length - merged.length} comments overlapping the comments of other personas`);
+        }
+        return merged.map(m => m.comment);
+    }
+
+    /**
+     * Loads the repository settings from `.anna.yml`, falling back to the environment settings if there is none.
+     * An invalid file is not applied at all, and a PR comment lists its problems.
+     */
+    private async loadRepoConfig(commitId: string, context: InvocationContext): Promise<RepoConfig> {
+        let text: string;
+        try {
+            text = await this.platform.getFileContent(REPO_CONFIG_FILE, commitId);
+        } catch {
+            context.log(`[CONFIG] No ${REPO_CONFIG_FILE} found, using the environment settings`);
+            return getDefaultRepoConfig();
+        }
+
+        const { config, errors } = parseRepoConfig(text || '');
+        if (errors.length === 0) {
+            context.log(`[CONFIG] Using settings from ${REPO_CONFIG_FILE}`);
+            return config;
+        }
+
+        context.warn(`[CONFIG] Invalid ${REPO_CONFIG_FILE}, using the environment settings: ${errors.join('; ')}`);
+        try {
+            await this.platform.postGeneralComment(formatRepoConfigErrors(errors));
+        } catch (err: any) {
+            context.error(`[CONFIG] Failed to post the ${REPO_CONFIG_FILE} errors: ${err.message}`);
+        }
+        return config;
+    }
+
+    /**
+     * Resolves the guidelines of each file: the global guidelines file, every `.anna.yml` path_guidelines entry whose glob
+     * matches, then the nearest REVIEW_GUIDELINES.md walking up from the file's folder. Returns them merged per file name.
+     */
+    private async resolveGuidelines(reviewFiles: ReviewFile[], commitId: string, context: InvocationContext): Promise<Map<string, AppliedGuidelines>> {
+        // Many files share guideline files, so fetch each path only once
+        const contents = new Map<string, Promise<string | undefined>>();
+        const fetchGuidelines = (path: string, isConfigured: boolean): Promise<string | undefined> => {
+            if (!contents.has(path)) {
+                contents.set(path, this.platform.getFileContent(path, commitId)
+                    .then(content => content?.trim() ? content : undefined)
+                    .catch(() => undefined)
+                    .then(content => {
+                        if (!content && isConfigured) context.log(`[CONFIG] No custom rules found at ${path}, skipping it.`);
+                        return content;
+                    }));
+            }
+            return contents.get(path)!;
+        };
+
+        const result = new Map<string, AppliedGuidelines>();
+        for (const file of reviewFiles) {
+            const applied: { path: string; content: string }[] = [];
+            for (const path of getConfiguredGuidelinePaths(file.fileName, this.config.guidelines, this.config.pathGuidelines)) {
+                const content = await fetchGuidelines(path, true);
+                if (content) applied.push({ path, content });
+            }
+
+            for (const candidate of getNearestGuidelineCandidates(file.fileName)) {
+                const content = await fetchGuidelines(candidate, false);
+                if (!content) continue;
+                if (!applied.some(g => isSameGuidelinePath(g.path, candidate))) applied.push({ path: candidate, content });
+                break;
+            }
+
+            const guidelines = mergeGuidelines(applied);
+            result.set(file.fileName, guidelines);
+            if (guidelines.paths.length > 0) {
+                context.log(`[CONFIG] Using custom rules for ${file.fileName}: ${guidelines.paths.join(', ')}`);
+            }
+        }
+
+        if (![...result.values()].some(g => g.text)) {
+            context.log(`[CONFIG] No custom rules found, using defaults.`);
+        }
+        return result;
+    }
+
+    /**
+     * Combines the built-in ignore list, the `.gitattributes` generated/vendored markers and the `.anna.yml` ignore patterns.
+     * Later rules win, so the repository can re-include a file ignored by default (e.g., "!package.json").
+     */
+    private async loadIgnoreRules(commitId: string, context: InvocationContext): Promise<IgnoreRule[]> {
+        let gitAttributeRules: IgnoreRule[] = [];
+        try {
+            gitAttributeRules = parseGitAttributes(await this.platform.getFileContent('.gitattributes', commitId));
+            if (gitAttributeRules.length > 0) {
+                context.log(`[CONFIG] Using ${gitAttributeRules.length} linguist-generated/vendored rules from .gitattributes`);
+            }
+        } catch {
+            // The repository has no .gitattributes
+        }
+
+        return [...DEFAULT_IGNORE_RULES, ...gitAttributeRules, ...parseIgnoreRules(this.config.ignore, REPO_CONFIG_FILE)];
+    }
+
+    /**
+     * Adds the static rule findings of a file to the collection. Returns the number of them that request changes.
+     */
+    private collectRuleFindings(findings: StaticRuleFinding[], allComments: ReviewComment[], context: InvocationContext): number {
+        for (const finding of findings) {
+            allComments.push(finding.comment);
+            const line = finding.comment.endLine ? `:${finding.comment.endLine}` : '';
+            context.log(`[RULES] ${finding.rule.id} found an issue in ${finding.comment.filePath}${line}${finding.blocking ? ' (blocking)' : ''}`);
+        }
+        return findings.filter(f => f.blocking).length;
+    }
+
+    /**
+     * Returns the status chosen by the approval policy, unless files could not be reviewed. An incomplete review is never
+     * more favorable than waiting or commented, according to the incomplete review policy (retry ends up waiting once the
+     * retries are used up).
+     */
+    private getReviewStatus(policyStatus: ReviewStatus, outcome: ReviewOutcome): ReviewStatus {
+        if (outcome.isComplete) return policyStatus;
+        const incompleteStatus: ReviewStatus = this.config.incompleteReview === 'comment' ? 'commented' : 'waiting';
+        // REVIEW_STATUSES is ordered from approval to rejection
+        return REVIEW_STATUSES.indexOf(policyStatus) < REVIEW_STATUSES.indexOf(incompleteStatus) ? incompleteStatus : policyStatus;
+    }
+
+    /**
+     * Asks the AI for the overall assessment shown in the review summary.
+     * Returns undefined if there is nothing to assess, the prompt is too large or the request fails.
+     */
+    private async getAssessment(reviewFiles: ReviewFile[], comments: ReviewComment[], context: InvocationContext): Promise<string | undefined> {
+        if (reviewFiles.length === 0) return undefined;
+
+        const maxTokens = env.MAX_BATCH_TOKENS ? parseInt(env.MAX_BATCH_TOKENS, 10) : DEFAULT_MAX_BATCH_TOKENS;
+        const tokens = estimateTokens(reviewFiles.map(f => f.diff || f.content).join('\n'));
+        if (tokens > maxTokens) {
+            context.log(`[SUMMARY] Changes of ~${tokens} tokens exceed MAX_BATCH_TOKENS (${maxTokens}), skipping the overall assessment`);
+            return undefined;
+        }
+
+        try {
+            const findings = comments.map(c => ({ fileName: c.filePath, severity: c.severity, comment: c.comment }));
+            return await assessPullRequest(reviewFiles, findings, this.config.model) || undefined;
+        } catch (err: any) {
+            context.error(`[SUMMARY] Failed to get the overall assessment: ${err.message}`);
+            return undefined;
+        }
+    }
+
+    /**
+     * Lists the comments already on the PR. Returns an empty list if the request fails.
+     */
+    private async getExistingComments(context: InvocationContext): Promise<ExistingComment[]> {
+        try {
+            const comments = await this.platform.getExistingComments();
+            context.log(`[DEDUPE] Found ${comments.length} existing comments on the PR`);
+            return comments;
+        } catch (err: any) {
+            context.error(`[DEDUPE] Failed to list existing comments, posting without deduplication: ${err.message}`);
+            return [];
+        }
+    }
+
+    /**
+     * Asks the AI which of the reviewer's unresolved threads from earlier reviews are fixed, and resolves them.
+     * Returns the threads that are still open.
+     */
+    private async resolveFixedThreads(reviewFiles: ReviewFile[], context: InvocationContext): Promise<BotThread[]> {
+        if (!this.platform.getOpenBotThreads) return [];
+
+        let threads: BotThread[];
+        try {
+            threads = await this.platform.getOpenBotThreads();
+        } catch (err: any) {
+            context.error(`[THREADS] Failed to load threads from earlier reviews: ${err.message}`);
+            return [];
+        }
+        if (threads.length === 0) return [];
+        if (!this.platform.resolveThread) {
+            context.log(`[THREADS] Found ${threads.length} open threads from earlier reviews, the platform cannot resolve them`);
+            return threads;
+        }
+
+        // Only threads on files with reviewed changes can have been fixed
+        const filesByKey = new Map(reviewFiles.map(file => [normalizePath(file.fileName), file]));
+        const candidates = threads.filter(thread => filesByKey.has(normalizePath(thread.path)));
+        context.log(`[THREADS] Found ${threads.length} open threads from earlier reviews, ${candidates.length} on changed files`);
+        if (candidates.length === 0) return threads;
+
+        const issues: PreviousIssue[] = candidates.map(thread => ({
+            id: thread.id,
+            fileName: thread.path,
+            startLine: thread.startLine,
+            endLine: thread.endLine,
+            comment: thread.comment
+        }));
+        const files = [...new Set(candidates.map(thread => filesByKey.get(normalizePath(thread.path))!))];
+
+        const maxTokens = env.MAX_BATCH_TOKENS ? parseInt(env.MAX_BATCH_TOKENS, 10) : DEFAULT_MAX_BATCH_TOKENS;
+        const tokens = estimateTokens(files.map(f => f.content).join('\n') + issues.map(i => i.comment).join('\n'));
+        if (tokens > maxTokens) {
+            context.log(`[THREADS] Resolution check of ~${tokens} tokens exceeds MAX_BATCH_TOKENS (${maxTokens}), keeping all threads open`);
+            return threads;
+        }
+
+        let fixedIds: string[];
+        try {
+            fixedIds = await checkFixedIssues(issues, files, this.config.model);
+        } catch (err: any) {
+            context.error(`[THREADS] Failed to check earlier threads, keeping them open: ${err.message}`);
+            return threads;
+        }
+
+        const stillOpen: BotThread[] = [];
+        for (const thread of threads) {
+            if (!fixedIds.includes(thread.id)) {
+                stillOpen.push(thread);
+                continue;
+            }
+            try {
+                await this.platform.resolveThread(thread);
+                context.log(`[THREADS] Resolved fixed thread on ${thread.path}${thread.endLine ? ` (line ${thread.endLine})` : ''}`);
+            } catch (err: any) {
+                context.error(`[THREADS] Failed to resolve thread ${thread.id}: ${err.message}`);
+                stillOpen.push(thread);
+            }
+        }
+        return stillOpen;
+    }
+
+    /**
+     * Lists all repository files at the given commit.
+     * Returns an empty list if the platform doesn't support it or the request fails.
+     */
+    private async getRepoFilePaths(commitId: string, context: InvocationContext): Promise<string[]> {
+        if (!this.platform.getRepoFilePaths) {
+            context.log(`[CONTEXT] Platform does not support listing repository files, skipping repository context`);
+            return [];
+        }
+
+        try {
+            const repoPaths = await this.platform.getRepoFilePaths(commitId);
+            context.log(`[CONTEXT] Found ${repoPaths.length} files in repository`);
+            return repoPaths;
+        } catch (err: any) {
+            context.error(`[CONTEXT] Failed to list repository files, continuing without repository context: ${err.message}`);
+            return [];
+        }
+    }
+
+    /**
+     * Builds the repository code map at the given commit.
+     * Returns undefined if the map can't be built.
+     */
+    private async buildCodeMap(repoPaths: string[], commitId: string, context: InvocationContext): Promise<string | undefined> {
+        try {
+            // The PR identifier includes the repository, so equal SHAs in different repositories don't collide
+            const cacheKey = `${this.platform.getPRIdentifier()}@${commitId}`;
+            const codeMap = await generateCodeMap(repoPaths, path => this.platform.getFileContent(path, commitId), cacheKey);
+            context.log(`[CODEMAP] Generated code map (~${estimateTokens(codeMap)} tokens)`);
+            return codeMap || undefined;
+        } catch (err: any) {
+            context.error(`[CODEMAP] Failed to generate code map, continuing without it: ${err.message}`);
+            return undefined;
+        }
+    }
+
+    /**
+     * Agentic planning pass: asks the AI which unchanged files it needs and fetches them at the same commit.
+     * Falls back to codemap-only context (no extra files) if planning fails.
+     */
+    private async fetchRequestedContext(
+        reviewFiles: ReviewFile[],
+        repoPaths: string[],
+        codeMap: string | undefined,
+        commitId: string,
+        context: InvocationContext
+    ): Promise<ReviewFile[]> {
+        const maxFiles = env.MAX_CONTEXT_FILES ? parseInt(env.MAX_CONTEXT_FILES, 10) : DEFAULT_MAX_CONTEXT_FILES;
+        const maxTokens = env.MAX_CONTEXT_TOKENS ? parseInt(env.MAX_CONTEXT_TOKENS, 10) : DEFAULT_MAX_CONTEXT_TOKENS;
+
+        // The path list shares the batch token budget with the changes and the code map of the planning prompt
+        const maxBatchTokens = env.MAX_BATCH_TOKENS ? parseInt(env.MAX_BATCH_TOKENS, 10) : DEFAULT_MAX_BATCH_TOKENS;
+        const promptTokens = estimateTokens(reviewFiles.map(f => f.diff || '').join('\n') + (codeMap || ''));
+        const candidatePaths = repoPaths.filter(path => !shouldIgnoreFile(path, this.ignoreRules));
+        const planningPaths = selectPlanningPaths(candidatePaths, reviewFiles, Math.max(0, maxBatchTokens - promptTokens));
+        if (planningPaths.length < candidatePaths.length) {
+            context.log(`[AGENTIC] Listing ${planningPaths.length} of ${candidatePaths.length} repository files, nearest to the changes first, within MAX_BATCH_TOKENS (${maxBatchTokens})`);
+        }
+
+        let requested: string[];
+        try {
+            requested = await planReviewContext(reviewFiles, planningPaths, maxFiles, codeMap, this.config.model);
+            context.log(`[AGENTIC] AI requested ${requested.length} context files: ${requested.join(', ') || '(none)'}`);
+        } catch (err: any) {
+            context.error(`[AGENTIC] Planning failed, falling back to codemap context: ${err.message}`);
+            return [];
+        }
+
+        // Only accept real repository files that are not already part of the changes
+        const repoPathsByKey = new Map(repoPaths.map(path => [normalizePath(path), path]));
+        const changedKeys = new Set(reviewFiles.map(f => normalizePath(f.fileName)));
+        const contextFiles: ReviewFile[] = [];
+        let totalTokens = 0;
+
+        for (const requestedPath of requested) {
+            const key = normalizePath(requestedPath);
+            const repoPath = repoPathsByKey.get(key);
+            if (!repoPath || changedKeys.has(key) || contextFiles.some(f => f.fileName === repoPath)) {
+                context.log(`[AGENTIC] Skipping requested file ${requestedPath} (not in repository, already changed or duplicate)`);
+                continue;
+            }
+
+            try {
+                const content = await this.platform.getFileContent(repoPath, commitId);
+                const tokens = estimateTokens(content);
+                if (totalTokens + tokens > maxTokens) {
+                    context.log(`[AGENTIC] Skipping ${repoPath} (~${tokens} tokens), MAX_CONTEXT_TOKENS (${maxTokens}) reached`);
+                    continue;
+                }
+                contextFiles.push({ fileName: repoPath, content });
+                totalTokens += tokens;
+            } catch (err: any) {
+                context.error(`[AGENTIC] Failed to fetch context file ${repoPath}: ${err.message}`);
+            }
+        }
+
+        context.log(`[AGENTIC] Pulled in ${contextFiles.length} context files (~${totalTokens} tokens): ${contextFiles.map(f => f.fileName).join(', ') || '(none)'}`);
+        return contextFiles;
+    }
+
+    /**
+     * Adds the AI comments for a file to the collection, dropping comments on unchanged lines
+     * and comments below the configured minimum severity
+     */
+    private collectFileComments(file: ReviewFile, aiReviews: AIReviewComment[], allComments: ReviewComment[], context: InvocationContext): void {
+        const changedRanges = getChangedLineRanges(file.diff);
+        let reviews = aiReviews;
+
+        if (changedRanges.length > 0) {
+            reviews = aiReviews.filter(r => !r.endLine || overlapsLineRanges(r.startLine || r.endLine, r.endLine, changedRanges));
+            if (reviews.length < aiReviews.length) {
+                context.log(`[AI] Dropped ${aiReviews.length - reviews.length} comments on unchanged lines in ${file.fileName}`);
+            }
+        }
+
+        // Unknown severities count as minor
+        const minLevel = SEVERITY_LEVELS.indexOf(this.config.minSeverity);
+        const severeEnough = reviews.filter(r => {
+            const level = SEVERITY_LEVELS.indexOf(r.severity as Severity);
+            return (level < 0 ? SEVERITY_LEVELS.length - 1 : level) <= minLevel;
+        });
+        if (severeEnough.length < reviews.length) {
+            context.log(`[AI] Dropped ${reviews.length - severeEnough.length} comments below ${this.config.minSeverity} severity in ${file.fileName}`);
+            reviews = severeEnough;
+        }
+
+        if (reviews.length === 0) {
+            context.log(`[AI] No issues found in ${file.fileName}`);
+            return;
+        }
+
+        for (const review of reviews) {
+            allComments.push({
+                filePath: file.fileName,
+                startLine: review.startLine,
+                endLine: review.endLine,
+                severity: review.severity,
+                comment: review.comment,
+                suggestion: sanitizeSuggestion(review.suggestion, file.content, review.startLine, review.endLine)
+            });
+        }
+        context.log(`[AI] Found ${reviews.length} issues in ${file.fileName}`);
     }
 }
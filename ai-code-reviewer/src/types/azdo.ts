@@ -9,7 +9,7 @@ export interface AzDoWebhookPayload {
 
 export interface AzDoPullRequest {
     pullRequestId: number;
-    reviewers: AzDoReviewer[];
+    reviewers?: AzDoReviewer[];         // Not in queued jobs; the adapter loads the current reviewers
     repository: AzDoRepository;
 }
 
@@ -21,6 +21,7 @@ export interface AzDoReviewer {
 
 export interface AzDoRepository {
     id: string;
+    url?: string;
     project: {
         name: string;
     };
@@ -31,6 +32,12 @@ export interface AzDoIteration {
     sourceRefCommit: {
         commitId: string;
     };
+    targetRefCommit?: {
+        commitId: string;
+    };
+    commonRefCommit?: {
+        commitId: string;
+    };
 }
 
 export interface AzDoIterationsResponse {
@@ -42,6 +49,30 @@ export interface AzDoChange {
         path: string;
         isFolder?: boolean;
     };
+    changeType?: string;
+    originalPath?: string;
+}
+
+export interface AzDoThread {
+    id: number;
+    status?: string;
+    isDeleted?: boolean;
+    threadContext?: {
+        filePath: string;
+        rightFileStart?: { line: number; offset: number };
+        rightFileEnd?: { line: number; offset: number };
+    };
+    comments: {
+        id: number;
+        content?: string;
+        commentType?: string;
+        author: { id: string; displayName: string };
+    }[];
+}
+
+export interface AzDoPropertiesResponse {
+    count: number;
+    value?: Record<string, { $type: string; $value: string }>;
 }
 
 export interface AzDoChangesResponse {
@@ -0,0 +1,134 @@
+/**
+ * Bitbucket Webhook and API Types
+ * Bitbucket Cloud (api.bitbucket.org/2.0) and Bitbucket Data Center (/rest/api/1.0) use different payloads.
+ */
+
+/* ---------- Bitbucket Cloud ---------- */
+
+export interface BitbucketCloudWebhookPayload {
+    pullrequest: BitbucketCloudPullRequest;
+    repository: {
+        full_name: string;
+    };
+}
+
+export interface BitbucketCloudUser {
+    display_name: string;
+    nickname?: string;
+    account_id?: string;
+    uuid?: string;
+}
+
+export interface BitbucketCloudPullRequest {
+    id: number;
+    state: string;
+    source: {
+        commit: { hash: string };
+    };
+    destination: {
+        commit: { hash: string };
+    };
+    reviewers?: BitbucketCloudUser[];
+}
+
+export interface BitbucketCloudDiffStat {
+    status: "added" | "removed" | "modified" | "renamed";
+    old: { path: string } | null;
+    new: { path: string } | null;
+}
+
+export interface BitbucketCloudComment {
+    id: number;
+    deleted?: boolean;
+    user?: BitbucketCloudUser;
+    content: { raw: string };
+    resolution?: object | null;     // Set once the comment thread is resolved
+    inline?: {
+        path: string;
+        from?: number | null;   // Line in the old version of the file
+        to?: number | null;     // Line in the new version of the file
+    };
+}
+
+export interface BitbucketCloudPage<T> {
+    values: T[];
+    next?: string;
+}
+
+/* ---------- Bitbucket Data Center ---------- */
+
+export interface BitbucketServerWebhookPayload {
+    eventKey: string;
+    pullRequest: BitbucketServerPullRequest;
+}
+
+export interface BitbucketServerUser {
+    name: string;
+    slug: string;
+    displayName: string;
+}
+
+export interface BitbucketServerRef {
+    latestCommit: string;
+    repository: {
+        slug: string;
+        project: { key: string };
+    };
+}
+
+export interface BitbucketServerPullRequest {
+    id: number;
+    state: string;
+    fromRef: BitbucketServerRef;
+    toRef: BitbucketServerRef;
+    reviewers?: {
+        user: BitbucketServerUser;
+        status: "UNAPPROVED" | "NEEDS_WORK" | "APPROVED";
+    }[];
+}
+
+export interface BitbucketServerChange {
+    type: "ADD" | "MODIFY" | "DELETE" | "MOVE" | "COPY";
+    path: { toString: string };
+    srcPath?: { toString: string };
+}
+
+export interface BitbucketServerDiffResponse {
+    diffs: {
+        hunks?: {
+            sourceLine: number;
+            sourceSpan: number;
+            destinationLine: number;
+            destinationSpan: number;
+            segments: {
+                type: "ADDED" | "REMOVED" | "CONTEXT";
+                lines: { line: string }[];
+            }[];
+        }[];
+    }[];
+}
+
+export interface BitbucketServerComment {
+    id: number;
+    version: number;
+    text: string;
+    author?: BitbucketServerUser;
+    threadResolved?: boolean;
+}
+
+export interface BitbucketServerActivity {
+    action: string;
+    comment?: BitbucketServerComment;
+    commentAnchor?: {
+        path: string;
+        line?: number;
+    };
+}
+
+export interface BitbucketServerPage<T> {
+    values: T[];
+    isLastPage: boolean;
+    nextPageStart?: number;
+}
+
+export type BitbucketWebhookPayload = BitbucketCloudWebhookPayload | BitbucketServerWebhookPayload;
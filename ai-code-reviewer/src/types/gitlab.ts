@@ -0,0 +1,83 @@
+/**
+ * GitLab Webhook and API Types
+ */
+
+export interface GitLabWebhookPayload {
+    object_kind: string;
+    event_type?: string;
+    user?: GitLabUser;                  // Not in queued jobs
+    project: GitLabProject;
+    object_attributes: {
+        iid: number;
+        action?: string;
+        state: string;
+        last_commit?: {
+            id: string;
+        };
+    };
+    reviewers?: GitLabUser[];
+}
+
+export interface GitLabUser {
+    id: number;
+    username: string;
+    name: string;
+}
+
+export interface GitLabProject {
+    id: number;
+    path_with_namespace: string;
+}
+
+export interface GitLabMergeRequest {
+    iid: number;
+    sha: string;
+    state: string;
+    reviewers?: GitLabUser[];
+    diff_refs: GitLabDiffRefs;
+}
+
+export interface GitLabDiffRefs {
+    base_sha: string;
+    start_sha: string;
+    head_sha: string;
+}
+
+export interface GitLabDiff {
+    old_path: string;
+    new_path: string;
+    diff: string;
+    new_file: boolean;
+    renamed_file: boolean;
+    deleted_file: boolean;
+}
+
+export interface GitLabCompare {
+    commits: { id: string }[];
+    diffs: GitLabDiff[];
+}
+
+export interface GitLabNote {
+    id: number;
+    body: string;
+    system: boolean;
+    author: GitLabUser;
+}
+
+export interface GitLabDiscussion {
+    id: string;
+    individual_note: boolean;
+    notes: (GitLabNote & {
+        resolvable: boolean;
+        resolved?: boolean;
+        position?: {
+            new_path: string;
+            new_line?: number | null;
+        };
+    })[];
+}
+
+export interface GitLabTreeItem {
+    path: string;
+    type: "blob" | "tree" | "commit";
+}
@@ -1,112 +1,251 @@
-import OpenAI from "openai";
-import Anthropic from "@anthropic-ai/sdk";
-import { GoogleGenerativeAI } from "@google/generative-ai";
-import { systemPrompt, getUserPrompt } from "../prompts/reviewPrompts";
+import { systemPrompt, getUserPrompt, getBatchedUserPrompt, getPlanningPrompt, getResolutionCheckPrompt, getAssessmentPrompt, getRepairPrompt, DEFAULT_PERSONA, PreviousIssue, ReviewerPersona, ReviewFile, RepoContext } from "../prompts/reviewPrompts";
 import { env } from "../config/envVariables";
-import { AIProvider, PROVIDER_MAPPING } from "../types/providers";
+import { AIProvider, AITool } from "../interfaces/AIProvider";
+import { getAIProvider } from "../providers";
+import { getReviewJsonSchema, InvalidReviewResponseError, validateReviewResponse } from "./reviewSchema";
 
 /**
  * AI Review Comment Interface
  */
 export interface AIReviewComment {
+    filePath?: string;   // Only set by batched reviews, which span multiple files
     startLine: number;
     endLine: number;
     severity: string;
     comment: string;
+    suggestion?: string; // Replacement code for startLine..endLine
 }
 
 /**
- * Performs a code review using the configured AI provider.
- * Includes retry logic for rate limits.
+ * Performs a code review using the persona's AI provider (the configured one by default).
+ * When a diff is provided, the AI is instructed to review only the added/modified lines.
+ * When repository context is provided (code map, context files), it is included as read-only reference.
+ * Includes retry logic for rate limits. Throws InvalidReviewResponseError if the AI returns no usable review.
  */
 export async function reviewWithAI(
     fileName: string,
     content: string,
     customGuidelines?: string,
-    attempt: number = 1
+    diff?: string,
+    repoContext?: RepoContext,
+    modelName: string = env.AI_MODEL,
+    persona: ReviewerPersona = DEFAULT_PERSONA
 ): Promise<AIReviewComment[]> {
+    const userPrompt = getUserPrompt(fileName, content, customGuidelines, diff, repoContext, persona);
+    return requestReview(userPrompt, fileName, [{ fileName, content }], false, modelName, persona);
+}
+
+/**
+ * Performs a single code review of all given files using the persona's AI provider (the configured one by default).
+ * Each returned comment includes the `filePath` it belongs to.
+ * Includes retry logic for rate limits. Throws InvalidReviewResponseError if the AI returns no usable review.
+ */
+export async function reviewBatchWithAI(
+    files: ReviewFile[],
+    customGuidelines?: string,
+    repoContext?: RepoContext,
+    modelName: string = env.AI_MODEL,
+    persona: ReviewerPersona = DEFAULT_PERSONA
+): Promise<AIReviewComment[]> {
+    const userPrompt = getBatchedUserPrompt(files, customGuidelines, repoContext, persona);
+    return requestReview(userPrompt, `batch of ${files.length} files`, files, true, modelName, persona);
+}
+
+/**
+ * Planning pass of the agentic context mode: asks the AI which repository files it needs to read.
+ * Uses provider-native tool calling, falling back to a plain JSON response if the tool call fails.
+ * Returns at most `maxFiles` paths; the caller is responsible for validating them.
+ */
+export async function planReviewContext(
+    changedFiles: ReviewFile[],
+    allRepoPaths: string[],
+    maxFiles: number,
+    codeMap?: string,
+    modelName: string = env.AI_MODEL
+): Promise<string[]> {
+    const userPrompt = getPlanningPrompt(changedFiles, allRepoPaths, maxFiles, codeMap);
+    const provider = getAIProvider();
+
+    let rawResponse: string | null = null;
     try {
-        let rawResponse: string | null = null;
-        const envProvider = env.AI_PROVIDER.toLowerCase();
-        const provider = PROVIDER_MAPPING[envProvider];
-
-        if (provider === AIProvider.OPENAI) {
-            rawResponse = await reviewWithOpenAI(fileName, content, customGuidelines);
-        } else if (provider === AIProvider.ANTHROPIC) {
-            rawResponse = await reviewWithClaude(fileName, content, customGuidelines);
-        } else if (provider === AIProvider.GOOGLE) {
-            rawResponse = await reviewWithGemini(fileName, content, customGuidelines);
-        } else {
-            throw new Error(`Unsupported AI provider: ${envProvider}`);
-        }
+        rawResponse = await provider.callTool({ system: systemPrompt, prompt: userPrompt, model: modelName }, REQUEST_FILES_TOOL);
+    } catch (err: any) {
+        console.warn(`Native tool calling failed for ${provider.name}, falling back to JSON response: ${err.message}`);
+    }
+
+    if (!rawResponse) {
+        rawResponse = await callProvider(provider, userPrompt, modelName);
+    }
+    if (!rawResponse) return [];
+
+    const cleanedJson = rawResponse.replace(/```json/g, "").replace(/```/g, "").trim();
+    const parsed = JSON.parse(cleanedJson);
+    const requestedFiles: unknown[] = Array.isArray(parsed.requestedFiles) ? parsed.requestedFiles : [];
+
+    return requestedFiles
+        .filter((path): path is string => typeof path === 'string' && path.trim().length > 0)
+        .map(path => path.trim())
+        .slice(0, maxFiles);
+}
+
+/**
+ * Asks the AI which previously reported issues are fixed in the current code of their files.
+ * Returns the IDs of the fixed issues; issues missing from the response are treated as not fixed.
+ */
+export async function checkFixedIssues(issues: PreviousIssue[], files: ReviewFile[], modelName: string = env.AI_MODEL): Promise<string[]> {
+    const provider = getAIProvider();
+    const rawResponse = await callProvider(provider, getResolutionCheckPrompt(issues, files), modelName);
+    if (!rawResponse) return [];
+
+    const cleanedJson = rawResponse.replace(/```json/g, "").replace(/```/g, "").trim();
+    const parsed = JSON.parse(cleanedJson);
+    const results: { id?: unknown; fixed?: unknown }[] = Array.isArray(parsed.results) ? parsed.results : [];
+
+    const issueIds = new Set(issues.map(issue => issue.id));
+    return results
+        .filter(result => result.fixed === true && issueIds.has(String(result.id)))
+        .map(result => String(result.id));
+}
+
+/**
+ * Asks the AI for a short overall assessment of the pull request, shown in the review summary.
+ */
+export async function assessPullRequest(
+    files: ReviewFile[],
+    findings: { fileName: string; severity: string; comment: string }[],
+    modelName: string = env.AI_MODEL
+): Promise<string> {
+    const provider = getAIProvider();
+    const rawResponse = await callProvider(provider, getAssessmentPrompt(files, findings), modelName);
+    if (!rawResponse) return '';
+
+    const cleanedJson = rawResponse.replace(/```json/g, "").replace(/```/g, "").trim();
+    const parsed = JSON.parse(cleanedJson);
+    return typeof parsed.assessment === 'string' ? parsed.assessment.trim() : '';
+}
+
+/**
+ * Sends a prompt to the given AI provider and returns the raw text response.
+ * With a JSON Schema, the provider's native structured output constrains the response to it.
+ */
+async function callProvider(
+    provider: AIProvider,
+    userPrompt: string,
+    modelName: string,
+    schema?: Record<string, unknown>,
+    system: string = systemPrompt
+): Promise<string | null> {
+    return provider.complete({ system, prompt: userPrompt, model: modelName, schema });
+}
 
-        if (!rawResponse) return [];
+/**
+ * Checks whether a provider error is a rate limit (429)
+ */
+function isRateLimitError(err: any): boolean {
+    return err.status === 429 || err.statusCode === 429 || (err.message && err.message.includes("429"));
+}
+
+/**
+ * Checks whether a provider error rejects the structured output request itself (schema, response format or forced tool),
+ * e.g. a local model without JSON Schema support. Auth, network, timeout and server errors are not.
+ */
+function isStructuredOutputUnsupported(err: any): boolean {
+    const status = err.status ?? err.statusCode;
+    return (status === 400 || status === 422)
+        && /schema|response_format|response_mime_type|json|structured|tool|not supported|unsupported/i.test(err.message || '');
+}
 
-        try {
-            // Some models might wrap JSON in triple backticks
-            const cleanedJson = rawResponse.replace(/```json/g, "").replace(/```/g, "").trim();
-            const parsed = JSON.parse(cleanedJson);
-            return parsed.reviews || [];
-        } catch (parseErr) {
-            console.error(`Failed to parse ${provider} JSON response`, parseErr);
+// "provider:model" pairs that rejected structured output, so later requests (e.g., repairs) go straight to plain JSON
+const structuredOutputUnsupported = new Set<string>();
+
+/**
+ * Requests a response in the given JSON Schema, falling back to a plain JSON response
+ * if the model does not support structured output. Every other error is passed on to the caller.
+ */
+async function requestStructuredOutput(
+    provider: AIProvider,
+    userPrompt: string,
+    modelName: string,
+    schema: Record<string, unknown>,
+    system: string
+): Promise<string | null> {
+    const key = `${provider.name}:${modelName}`;
+    if (structuredOutputUnsupported.has(key)) {
+        return callProvider(provider, userPrompt, modelName, undefined, system);
+    }
+
+    try {
+        return await callProvider(provider, userPrompt, modelName, schema, system);
+    } catch (err: any) {
+        if (!isStructuredOutputUnsupported(err)) throw err;
+        console.warn(`Structured output is not supported by ${provider.name} (${modelName}), falling back to JSON response: ${err.message}`);
+        structuredOutputUnsupported.add(key);
+        return callProvider(provider, userPrompt, modelName, undefined, system);
+    }
+}
+
+/**
+ * Sends a review prompt to the persona's AI provider and validates the returned comments against the reviewed files.
+ * An invalid response gets one repair retry with the validation errors. If the repaired response is still not a review,
+ * throws InvalidReviewResponseError; otherwise its invalid comments are dropped.
+ * Retries with backoff when the provider reports a rate limit.
+ */
+async function requestReview(
+    userPrompt: string,
+    label: string,
+    files: ReviewFile[],
+    batched: boolean,
+    modelName: string,
+    persona: ReviewerPersona,
+    attempt: number = 1
+): Promise<AIReviewComment[]> {
+    try {
+        const provider = getAIProvider(persona.provider);
+        const schema = getReviewJsonSchema(batched);
+        const rawResponse = await requestStructuredOutput(provider, userPrompt, modelName, schema, persona.systemPrompt);
+
+        let result = validateReviewResponse(rawResponse, files, batched);
+        if (result.errors.length > 0) {
+            console.warn(`Invalid ${provider.name} review response for ${label}, asking for a repair: ${result.errors.join('; ')}`);
             console.debug("Raw content:", rawResponse);
-            return [];
+
+            const repairPrompt = getRepairPrompt(userPrompt, rawResponse, result.errors);
+            const repairedResponse = await requestStructuredOutput(provider, repairPrompt, modelName, schema, persona.systemPrompt);
+            result = validateReviewResponse(repairedResponse, files, batched);
+            if (!result.isParsed) throw new InvalidReviewResponseError(label, result.errors);
+            if (result.errors.length > 0) {
+                console.warn(`Dropped invalid comments from the repaired review of ${label}: ${result.errors.join('; ')}`);
+            }
         }
+        return result.reviews;
 
     } catch (err: any) {
         // Handle rate limits (429) for different providers
-        const isRateLimit = err.status === 429 || err.statusCode === 429 || (err.message && err.message.includes("429"));
-
-        if (isRateLimit && attempt <= 3) {
+        if (isRateLimitError(err) && attempt <= 3) {
             const jitter = Math.floor(Math.random() * 1000);
             const waitTime = (attempt * 2000) + jitter;
-            console.log(`Rate limit hit for ${fileName}. Retrying in ${waitTime}ms... (Attempt ${attempt})`);
+            console.log(`Rate limit hit for ${label}. Retrying in ${waitTime}ms... (Attempt ${attempt})`);
             await new Promise(resolve => setTimeout(resolve, waitTime));
-            return reviewWithAI(fileName, content, customGuidelines, attempt + 1);
+            return requestReview(userPrompt, label, files, batched, modelName, persona, attempt + 1);
         }
         throw err;
     }
 }
 
-async function reviewWithOpenAI(fileName: string, content: string, customGuidelines?: string): Promise<string | null> {
-    const openai = new OpenAI({ apiKey: env.AI_API_KEY });
-    const completion = await openai.chat.completions.create({
-        model: env.AI_MODEL,
-        messages: [
-            { role: "system", content: systemPrompt },
-            { role: "user", content: getUserPrompt(fileName, content, customGuidelines) }
-        ],
-        response_format: { type: "json_object" }
-    });
-    return completion.choices[0].message.content;
-}
-
-async function reviewWithClaude(fileName: string, content: string, customGuidelines?: string): Promise<string | null> {
-    const anthropic = new Anthropic({ apiKey: env.AI_API_KEY });
-    const response = await anthropic.messages.create({
-        model: env.AI_MODEL,
-        max_tokens: 4096,
-        system: systemPrompt,
-        messages: [
-            { role: "user", content: getUserPrompt(fileName, content, customGuidelines) }
-        ]
-    });
-
-    // Extract text from content blocks
-    return response.content
-        .filter(block => block.type === 'text')
-        .map(block => (block as any).text)
-        .join('\n');
-}
-
-async function reviewWithGemini(fileName: string, content: string, customGuidelines?: string): Promise<string | null> {
-    const genAI = new GoogleGenerativeAI(env.AI_API_KEY!);
-    const model = genAI.getGenerativeModel({
-        model: env.AI_MODEL,
-        systemInstruction: systemPrompt
-    });
+/* ---------- Agentic planning (provider-native tool calling) ---------- */
 
-    const result = await model.generateContent(getUserPrompt(fileName, content, customGuidelines));
-    const response = await result.response;
-    return response.text();
-}
+const REQUEST_FILES_TOOL: AITool = {
+    name: "request_files",
+    description: "Request unchanged repository files to read before reviewing the pull request.",
+    parameters: {
+        type: "object",
+        properties: {
+            requestedFiles: {
+                type: "array",
+                items: { type: "string" },
+                description: "Repository file paths to read, most important first."
+            }
+        },
+        required: ["requestedFiles"]
+    }
+};
@@ -1,5 +1,6 @@
 import axios, { AxiosInstance } from "axios";
 import { env } from "../config/envVariables";
+import { AzDoPropertiesResponse, AzDoThread } from "../types/azdo";
 
 /**
  * Azure DevOps Client Utility
@@ -43,7 +44,7 @@ export async function postReview(
     filePath?: string,
     startLine?: number,
     endLine?: number
-) {
+): Promise<number> {
     const threadBody: any = {
         comments: [
             {
@@ -71,10 +72,51 @@ export async function postReview(
     }
 
     const encodedProject = encodeURIComponent(project);
-    await azdo.post(
+    const res = await azdo.post<{ id: number }>(
         `/${encodedProject}/_apis/git/repositories/${repoId}/pullRequests/${prId}/threads?api-version=7.1`,
         threadBody
     );
+    return res.data.id;
+}
+
+/**
+ * List the comment threads of a Pull Request
+ */
+export async function getPrThreads(project: string, repoId: string, prId: number): Promise<AzDoThread[]> {
+    const encodedProject = encodeURIComponent(project);
+    const res = await azdo.get<{ value: AzDoThread[] }>(
+        `/${encodedProject}/_apis/git/repositories/${repoId}/pullRequests/${prId}/threads?api-version=7.1`
+    );
+    return res.data.value || [];
+}
+
+/**
+ * Replace the content of a comment in a Pull Request thread
+ */
+export async function updateThreadComment(
+    project: string,
+    repoId: string,
+    prId: number,
+    threadId: number,
+    commentId: number,
+    content: string
+) {
+    const encodedProject = encodeURIComponent(project);
+    await azdo.patch(
+        `/${encodedProject}/_apis/git/repositories/${repoId}/pullRequests/${prId}/threads/${threadId}/comments/${commentId}?api-version=7.1`,
+        { content }
+    );
+}
+
+/**
+ * Set the status of a Pull Request thread (1 = active, 2 = fixed, 4 = closed)
+ */
+export async function setThreadStatus(project: string, repoId: string, prId: number, threadId: number, status: number) {
+    const encodedProject = encodeURIComponent(project);
+    await azdo.patch(
+        `/${encodedProject}/_apis/git/repositories/${repoId}/pullRequests/${prId}/threads/${threadId}?api-version=7.1`,
+        { status }
+    );
 }
 
 /**
@@ -94,4 +136,41 @@ export async function setPrVote(
     );
 }
 
+/**
+ * Get the custom properties of a Pull Request as a key/value map
+ */
+export async function getPrProperties(
+    project: string,
+    repoId: string,
+    prId: number
+): Promise<Record<string, string>> {
+    const encodedProject = encodeURIComponent(project);
+    const res = await azdo.get<AzDoPropertiesResponse>(
+        `/${encodedProject}/_apis/git/repositories/${repoId}/pullRequests/${prId}/properties?api-version=7.1`
+    );
+
+    const properties: Record<string, string> = {};
+    for (const [key, property] of Object.entries(res.data.value || {})) {
+        properties[key] = property.$value;
+    }
+    return properties;
+}
+
+/**
+ * Add or remove custom properties of a Pull Request (JSON Patch)
+ */
+export async function updatePrProperties(
+    project: string,
+    repoId: string,
+    prId: number,
+    operations: { op: "add" | "remove"; path: string; value?: string }[]
+) {
+    const encodedProject = encodeURIComponent(project);
+    await azdo.patch(
+        `/${encodedProject}/_apis/git/repositories/${repoId}/pullRequests/${prId}/properties?api-version=7.1`,
+        operations,
+        { headers: { "Content-Type": "application/json-patch+json" } }
+    );
+}
+
 export default azdo;
@@ -0,0 +1,68 @@
+import axios, { AxiosInstance } from "axios";
+import { env } from "../config/envVariables";
+import { BitbucketCloudPage, BitbucketServerPage } from "../types/bitbucket";
+
+/**
+ * Bitbucket Client Utility
+ * Handles communication with Bitbucket Cloud, or Bitbucket Data Center when BITBUCKET_URL is set
+ */
+
+export const isBitbucketCloud = !env.BITBUCKET_URL;
+
+const bitbucket: AxiosInstance = axios.create({
+    baseURL: isBitbucketCloud
+        ? "https://api.bitbucket.org/2.0"
+        : `${env.BITBUCKET_URL.replace(/\/+$/, "")}/rest/api/1.0`,
+    // Cloud app passwords use basic auth; access tokens (Cloud or Data Center) use bearer auth
+    ...(env.BITBUCKET_USERNAME
+        ? { auth: { username: env.BITBUCKET_USERNAME, password: env.BITBUCKET_TOKEN || "" } }
+        : { headers: { Authorization: `Bearer ${env.BITBUCKET_TOKEN || ""}` } })
+});
+
+// Logging interceptor for debugging 404s and progress
+bitbucket.interceptors.request.use(config => {
+    console.log(`[Bitbucket API Request] ${config.method?.toUpperCase()} ${config.baseURL}${config.url}`);
+    return config;
+});
+
+bitbucket.interceptors.response.use(
+    response => response,
+    error => {
+        if (error.response) {
+            console.error(`[Bitbucket API Error] Status: ${error.response.status}`);
+            console.error(`[Bitbucket API Error] Resource: ${error.config.url}`);
+            console.error(`[Bitbucket API Error] Data:`, error.response.data);
+        }
+        return Promise.reject(error);
+    }
+);
+
+/**
+ * Fetch all pages of a paginated Bitbucket list endpoint (Cloud "next" links or Data Center "nextPageStart")
+ */
+export async function getAllPages<T>(url: string, params: Record<string, any> = {}): Promise<T[]> {
+    const results: T[] = [];
+
+    if (isBitbucketCloud) {
+        let nextUrl: string | undefined = url;
+        let pageParams: Record<string, any> | undefined = { ...params, pagelen: 100 };
+        while (nextUrl) {
+            const res = await bitbucket.get<BitbucketCloudPage<T>>(nextUrl, { params: pageParams });
+            results.push(...res.data.values);
+            nextUrl = res.data.next;
+            pageParams = undefined; // The "next" link already carries the query string
+        }
+        return results;
+    }
+
+    let start = 0;
+    while (true) {
+        const res = await bitbucket.get<BitbucketServerPage<T>>(url, { params: { ...params, limit: 500, start } });
+        results.push(...res.data.values);
+        if (res.data.isLastPage || res.data.nextPageStart === undefined) break;
+        start = res.data.nextPageStart;
+    }
+    return results;
+}
+
+export default bitbucket;
@@ -1,26 +1,441 @@
 /**
- * Utility to clean code content by removing specific blocks like Swagger/OpenAPI documentation
- * or large comment blocks to determine the "true" size of the file (logic-only).
- * 
- * @param content The raw file content
- * @param path The file path to determine language-specific cleaning if needed
+ * Code Cleaner
+ * Separates code from comments with a small per-language tokenizer, to determine the "true" size of a file (logic-only).
+ * Strings, template literals, raw strings and regex literals are skipped, so comment markers inside them are not
+ * mistaken for comments. Languages are keyed on file extension; files of other languages are treated as all code.
  */
-export function cleanCodeContent(content: string, path: string): string {
-    let cleaned = content;
-    const lowerPath = path.toLowerCase();
 
-    // 1. Remove /* ... */ blocks (Common in JS, TS, C#, C++, etc.)
-    cleaned = cleaned.replace(/\/\*[\s\S]*?\*\//g, '');
+/**
+ * A string literal syntax
+ */
+interface StringSyntax {
+    open: string;
+    close: string;
+    escape?: 'backslash' | 'double';    // "\"" or "" (doubled closing delimiter) inside the string
+    multiline?: boolean;                 // Otherwise an unterminated string ends at the end of the line
+    scalarOnly?: boolean;                // YAML: quotes only start a string at the beginning of a value
+}
+
+interface LanguageSyntax {
+    lineComments?: string[];
+    blockComments?: [string, string][];
+    strings?: StringSyntax[];            // Longest opening delimiters first
+    commentAfterSpaceOnly?: boolean;     // Shell/YAML: "#" only starts a comment at the beginning of a word
+    templateLiterals?: boolean;          // JS/TS: `text ${expression} text`
+    regexLiterals?: boolean;             // JS/TS: /pattern/flags
+    docstrings?: boolean;                // Python: a string standing alone as a statement is documentation
+}
+
+/**
+ * Line counts of a file
+ */
+export interface CodeStats {
+    totalLines: number;
+    codeLines: number;       // Lines with at least some code
+    commentLines: number;    // Lines with only comments (or docstrings)
+    blankLines: number;
+}
+
+/**
+ * Code lines, comment lines and line counts of a file, see analyzeCode()
+ */
+export interface CodeAnalysis {
+    codeLines: string[];
+    commentLines: string[];
+    stats: CodeStats;
+}
+
+interface ClassifiedLine {
+    kind: 'code' | 'comment' | 'blank';
+    code: string;           // Code and literals, comments removed
+    maskedCode: string;     // Code with literals blanked out
+    comment: string;        // Comments, code and literals blanked out
+}
+
+const BACKSLASH_STRINGS: StringSyntax[] = [
+    { open: '"', close: '"', escape: 'backslash' },
+    { open: "'", close: "'", escape: 'backslash' },
+];
+
+const C_STYLE_COMMENTS: Pick<LanguageSyntax, 'lineComments' | 'blockComments'> = {
+    lineComments: ['//'],
+    blockComments: [['/*', '*/']],
+};
+
+const JAVASCRIPT: LanguageSyntax = { ...C_STYLE_COMMENTS, strings: BACKSLASH_STRINGS, templateLiterals: true, regexLiterals: true };
+
+const CSHARP: LanguageSyntax = {
+    ...C_STYLE_COMMENTS,
+    strings: [
+        { open: '"""', close: '"""', multiline: true },                    // Raw string literal
+        { open: '$@"', close: '"', escape: 'double', multiline: true },
+        { open: '@$"', close: '"', escape: 'double', multiline: true },
+        { open: '@"', close: '"', escape: 'double', multiline: true },      // Verbatim string
+        ...BACKSLASH_STRINGS,
+    ],
+};
+
+const JAVA: LanguageSyntax = {
+    ...C_STYLE_COMMENTS,
+    strings: [{ open: '"""', close: '"""', escape: 'backslash', multiline: true }, ...BACKSLASH_STRINGS],   // Text block
+};
+
+const GO: LanguageSyntax = {
+    ...C_STYLE_COMMENTS,
+    strings: [{ open: '`', close: '`', multiline: true }, ...BACKSLASH_STRINGS],    // Raw string
+};
+
+const C_LIKE: LanguageSyntax = { ...C_STYLE_COMMENTS, strings: BACKSLASH_STRINGS };
+
+const PYTHON: LanguageSyntax = {
+    lineComments: ['#'],
+    strings: [
+        { open: '"""', close: '"""', escape: 'backslash', multiline: true },
+        { open: "'''", close: "'''", escape: 'backslash', multiline: true },
+        ...BACKSLASH_STRINGS,
+    ],
+    docstrings: true,
+};
+
+const SQL: LanguageSyntax = {
+    lineComments: ['--'],
+    blockComments: [['/*', '*/']],
+    strings: [
+        { open: "'", close: "'", escape: 'double', multiline: true },
+        { open: '"', close: '"', escape: 'double' },     // Quoted identifier
+    ],
+};
+
+const YAML: LanguageSyntax = {
+    lineComments: ['#'],
+    commentAfterSpaceOnly: true,
+    strings: [
+        { open: "'", close: "'", escape: 'double', multiline: true, scalarOnly: true },
+        { open: '"', close: '"', escape: 'backslash', multiline: true, scalarOnly: true },
+    ],
+};
+
+const HTML: LanguageSyntax = { blockComments: [['<!--', '-->']] };
+
+const SHELL: LanguageSyntax = {
+    lineComments: ['#'],
+    commentAfterSpaceOnly: true,
+    strings: [
+        { open: "'", close: "'", multiline: true },
+        { open: '"', close: '"', escape: 'backslash', multiline: true },
+    ],
+};
+
+const LANGUAGES: Record<string, string> = {
+    '.ts': 'typescript', '.tsx': 'typescript', '.mts': 'typescript', '.cts': 'typescript',
+    '.js': 'javascript', '.jsx': 'javascript', '.mjs': 'javascript', '.cjs': 'javascript',
+    '.cs': 'csharp',
+    '.java': 'java',
+    '.go': 'go',
+    '.c': 'c', '.h': 'c', '.cpp': 'cpp', '.hpp': 'cpp', '.cc': 'cpp',
+    '.py': 'python',
+    '.sql': 'sql',
+    '.yml': 'yaml', '.yaml': 'yaml',
+    '.html': 'html', '.htm': 'html',
+    '.sh': 'shell', '.bash': 'shell', '.zsh': 'shell',
+};
+
+const SYNTAXES: Record<string, LanguageSyntax> = {
+    typescript: JAVASCRIPT,
+    javascript: JAVASCRIPT,
+    csharp: CSHARP,
+    java: JAVA,
+    go: GO,
+    c: C_LIKE,
+    cpp: C_LIKE,
+    python: PYTHON,
+    sql: SQL,
+    yaml: YAML,
+    html: HTML,
+    shell: SHELL,
+};
+
+// Keywords after which a "/" starts a regex literal rather than a division
+const REGEX_PREFIX_KEYWORDS = new Set(['return', 'typeof', 'instanceof', 'in', 'of', 'new', 'delete', 'void', 'throw', 'case', 'do', 'else', 'yield', 'await']);
+const REGEX_PREFIX_CHARS = '(,=:[!&|?{};+-*%<>~^';
+
+const CODE = 0;
+const COMMENT = 1;
+const STRING = 2;       // String, template and regex literals
+
+/**
+ * Returns the language of a file from its extension (e.g., "typescript", "python"), or undefined if not supported
+ */
+export function getLanguage(path: string): string | undefined {
+    const dot = path.lastIndexOf('.');
+    return dot >= 0 ? LANGUAGES[path.slice(dot).toLowerCase()] : undefined;
+}
+
+/**
+ * Returns the end (exclusive) of the string starting at `start`
+ */
+function scanString(content: string, start: number, syntax: StringSyntax): number {
+    let i = start + syntax.open.length;
+    while (i < content.length) {
+        if (content.startsWith(syntax.close, i)) {
+            if (syntax.escape === 'double' && content.startsWith(syntax.close, i + syntax.close.length)) {
+                i += syntax.close.length * 2;
+                continue;
+            }
+            return i + syntax.close.length;
+        }
+        if (syntax.escape === 'backslash' && content[i] === '\\') {
+            i += 2;
+            continue;
+        }
+        if (content[i] === '\n' && !syntax.multiline) return i;
+        i++;
+    }
+    return content.length;
+}
+
+/**
+ * Scans template literal text up to the closing backtick or the start of a "${" expression.
+ * Returns the position after it, and whether an expression was opened.
+ */
+function scanTemplateText(content: string, start: number): { end: number; inExpression: boolean } {
+    let i = start;
+    while (i < content.length) {
+        if (content[i] === '\\') {
+            i += 2;
+        } else if (content[i] === '`') {
+            return { end: i + 1, inExpression: false };
+        } else if (content.startsWith('${', i)) {
+            return { end: i + 2, inExpression: true };
+        } else {
+            i++;
+        }
+    }
+    return { end: content.length, inExpression: false };
+}
+
+/**
+ * Returns the end (exclusive) of the regex literal starting at `start`, or -1 if the line holds no closing "/"
+ */
+function scanRegex(content: string, start: number): number {
+    let inClass = false;
+    for (let i = start + 1; i < content.length; i++) {
+        const ch = content[i];
+        if (ch === '\n') return -1;
+        if (ch === '\\') {
+            i++;
+        } else if (ch === '[') {
+            inClass = true;
+        } else if (ch === ']') {
+            inClass = false;
+        } else if (ch === '/' && !inClass) {
+            return i + 1;
+        }
+    }
+    return -1;
+}
+
+/**
+ * Returns a check of whether only whitespace precedes an index on its line. The indexes must not decrease between calls:
+ * the check scans forward from the previous one, so a file costs a single pass however long its lines are.
+ */
+function trackLineStart(content: string): (index: number) => boolean {
+    let scanned = 0;
+    let isFirst = true;
+    return (index: number) => {
+        for (; scanned < index; scanned++) {
+            if (content[scanned] === '\n') {
+                isFirst = true;
+            } else if (!/\s/.test(content[scanned])) {
+                isFirst = false;
+            }
+        }
+        return isFirst;
+    };
+}
+
+/**
+ * Checks whether only whitespace (or a comment) follows `index` on its line
+ */
+function isLastOnLine(content: string, index: number, syntax: LanguageSyntax): boolean {
+    const lineEnd = content.indexOf('\n', index);
+    const rest = content.slice(index, lineEnd < 0 ? content.length : lineEnd).trim();
+    return rest === '' || (syntax.lineComments || []).some(marker => rest.startsWith(marker));
+}
+
+/**
+ * Classifies every character of the content as code or comment
+ */
+function tokenize(content: string, syntax: LanguageSyntax): Uint8Array {
+    const kinds = new Uint8Array(content.length);
+    const templateDepths: number[] = [];    // Brace depth at which each open "${" expression ends
+    let braceDepth = 0;
+    let bracketDepth = 0;                   // (), [] and {} nesting, for Python docstrings
+    let previousChar = '';                  // Last significant code character
+    let previousWord = '';
+    const isFirstOnLine = trackLineStart(content);
+
+    let i = 0;
+    while (i < content.length) {
+        const ch = content[i];
+
+        const atWordStart = !syntax.commentAfterSpaceOnly || i === 0 || /\s/.test(content[i - 1]);
+        const lineComment = atWordStart ? syntax.lineComments?.find(marker => content.startsWith(marker, i)) : undefined;
+        if (lineComment) {
+            const lineEnd = content.indexOf('\n', i);
+            const end = lineEnd < 0 ? content.length : lineEnd;
+            kinds.fill(COMMENT, i, end);
+            i = end;
+            continue;
+        }
+
+        const blockComment = syntax.blockComments?.find(([open]) => content.startsWith(open, i));
+        if (blockComment) {
+            const close = content.indexOf(blockComment[1], i + blockComment[0].length);
+            const end = close < 0 ? content.length : close + blockComment[1].length;
+            kinds.fill(COMMENT, i, end);
+            i = end;
+            continue;
+        }
 
-    // 2. Remove """ ... """ blocks for Python files
-    if (lowerPath.endsWith('.py')) {
-        cleaned = cleaned.replace(/"""[\s\S]*?"""/g, '');
-        cleaned = cleaned.replace(/'''[\s\S]*?'''/g, '');
+        const isScalarStart = () => !previousChar || ':-[{,'.includes(previousChar) || isFirstOnLine(i);
+        const stringSyntax = syntax.strings?.find(s => content.startsWith(s.open, i) && (!s.scalarOnly || isScalarStart()));
+        if (stringSyntax) {
+            const end = scanString(content, i, stringSyntax);
+            const isDocstring = syntax.docstrings && bracketDepth === 0 && isFirstOnLine(i) && isLastOnLine(content, end, syntax);
+            kinds.fill(isDocstring ? COMMENT : STRING, i, end);
+            i = end;
+            previousChar = stringSyntax.close.slice(-1);
+            previousWord = '';
+            continue;
+        }
+
+        if (syntax.templateLiterals && ch === '`') {
+            const template = scanTemplateText(content, i + 1);
+            kinds.fill(STRING, i, template.end);
+            if (template.inExpression) templateDepths.push(braceDepth);
+            i = template.end;
+            previousChar = '`';
+            previousWord = '';
+            continue;
+        }
+
+        if (syntax.templateLiterals && ch === '}' && templateDepths.length > 0 && templateDepths[templateDepths.length - 1] === braceDepth) {
+            // End of a "${...}" expression: continue with the rest of the template text
+            templateDepths.pop();
+            const template = scanTemplateText(content, i + 1);
+            kinds.fill(STRING, i, template.end);
+            if (template.inExpression) templateDepths.push(braceDepth);
+            i = template.end;
+            previousChar = '`';
+            previousWord = '';
+            continue;
+        }
+
+        if (syntax.regexLiterals && ch === '/' && (!previousChar || REGEX_PREFIX_CHARS.includes(previousChar) || REGEX_PREFIX_KEYWORDS.has(previousWord))) {
+            const end = scanRegex(content, i);
+            if (end > 0) {
+                kinds.fill(STRING, i, end);
+                i = end;
+                previousChar = '/';
+                previousWord = '';
+                continue;
+            }
+        }
+
+        if (/[\w$]/.test(ch)) {
+            let end = i + 1;
+            while (end < content.length && /[\w$]/.test(content[end])) end++;
+            previousWord = content.slice(i, end);
+            previousChar = content[end - 1];
+            i = end;
+            continue;
+        }
+
+        if ('([{'.includes(ch)) bracketDepth++;
+        if (')]}'.includes(ch)) bracketDepth = Math.max(0, bracketDepth - 1);
+        if (ch === '{') braceDepth++;
+        if (ch === '}') braceDepth = Math.max(0, braceDepth - 1);
+        if (!/\s/.test(ch)) {
+            previousChar = ch;
+            previousWord = '';
+        }
+        i++;
+    }
+    return kinds;
+}
+
+/**
+ * Splits the content into lines and classifies each as code, comment or blank,
+ * keeping the code characters of each line (as is, and with literals blanked out) and its comment characters
+ */
+function classifyLines(content: string, path: string): ClassifiedLine[] {
+    const syntax = SYNTAXES[getLanguage(path) || ''];
+    const kinds = syntax ? tokenize(content, syntax) : new Uint8Array(content.length);
+
+    const lines: ClassifiedLine[] = [];
+    let start = 0;
+    while (start <= content.length) {
+        const newline = content.indexOf('\n', start);
+        const end = newline < 0 ? content.length : newline;
+
+        let code = '';
+        let maskedCode = '';
+        let comment = '';
+        for (let i = start; i < end; i++) {
+            if (kinds[i] === CODE) {
+                code += content[i];
+                maskedCode += content[i];
+            } else if (kinds[i] === STRING) {
+                code += content[i];
+                maskedCode += ' ';
+            }
+            comment += kinds[i] === COMMENT ? content[i] : ' ';
+        }
+        code = code.replace(/\s+$/, '');
+        maskedCode = maskedCode.replace(/\s+$/, '');
+        comment = comment.replace(/\s+$/, '');
+        lines.push({ kind: code.trim() ? 'code' : comment ? 'comment' : 'blank', code, maskedCode, comment });
+
+        start = end + 1;
     }
+    return lines;
+}
 
-    // 3. Trim trailing spaces and reduce multiple newlines to calculate logic density
-    cleaned = cleaned.replace(/[ \t]+$/gm, '');
-    cleaned = cleaned.replace(/\n\s*\n\s*\n/g, '\n\n');
+/**
+ * Classifies the lines of a file once and returns:
+ * - the code of every line with comments removed and string, template and regex literals blanked out,
+ *   so structural checks (braces, keywords) are not fooled by them
+ * - the comments (and Python docstrings) of every line, with code and literals blanked out
+ * - the code, comment and blank line counts
+ * Line numbers are kept (index 0 is line 1).
+ */
+export function analyzeCode(content: string, path: string): CodeAnalysis {
+    const lines = classifyLines(content, path);
+    return {
+        codeLines: lines.map(line => line.maskedCode),
+        commentLines: lines.map(line => line.comment),
+        stats: {
+            totalLines: lines.length,
+            codeLines: lines.filter(line => line.kind === 'code').length,
+            commentLines: lines.filter(line => line.kind === 'comment').length,
+            blankLines: lines.filter(line => line.kind === 'blank').length,
+        },
+    };
+}
 
-    return cleaned.trim();
+/**
+ * Removes comments (and Python docstrings) from the content, dropping comment-only lines and repeated blank lines.
+ *
+ * @param content The raw file content
+ * @param path The file path to determine language-specific cleaning
+ */
+export function cleanCodeContent(content: string, path: string): string {
+    const cleaned: string[] = [];
+    for (const line of classifyLines(content, path)) {
+        if (line.kind === 'comment') continue;
+        if (line.kind === 'blank' && (cleaned.length === 0 || cleaned[cleaned.length - 1] === '')) continue;
+        cleaned.push(line.kind === 'blank' ? '' : line.code);
+    }
+    return cleaned.join('\n').trim();
 }
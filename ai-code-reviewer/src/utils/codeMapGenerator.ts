@@ -0,0 +1,173 @@
+import { shouldIgnoreFile } from "../config/ignoreFiles";
+import { estimateTokens } from "./tokenEstimator";
+
+/**
+ * Code Map Generator
+ * Builds a lightweight structural outline of a repository (classes, interfaces and
+ * function signatures, no bodies) so the AI knows what already exists in the codebase.
+ * Extraction is regex-based and line-oriented; it favours being compact over being complete.
+ */
+
+const MAX_CODEMAP_FILES = 500;       // Cap on files fetched to build the map
+const MAX_CODEMAP_TOKENS = 20000;    // Cap on the size of the generated map
+const FETCH_CONCURRENCY = 5;
+const MAX_CACHED_CODEMAPS = 20;      // Cap on cached maps; the worker is long-lived, so the least recently used ones are evicted
+
+type Extractor = (content: string) => string[];
+
+const CONTROL_KEYWORDS = new Set(['if', 'for', 'while', 'switch', 'catch', 'return', 'function', 'constructor', 'else', 'do', 'try', 'new', 'using', 'lock', 'foreach', 'synchronized']);
+
+// In-memory LRU cache keyed by repository and commit; Map iteration is in insertion order, so the first entry is the oldest
+const codeMapCache = new Map<string, string>();
+
+/**
+ * Collapses whitespace and trailing punctuation so a signature fits on one line
+ */
+function tidy(signature: string): string {
+    return signature.replace(/\s+/g, ' ').replace(/\s*[{:;]\s*$/, '').trim();
+}
+
+/**
+ * TypeScript / JavaScript outline
+ */
+function extractTypeScript(content: string): string[] {
+    const outline: string[] = [];
+    for (const line of content.split('\n')) {
+        const isMember = /^\s+/.test(line);
+        let match: RegExpMatchArray | null;
+
+        if ((match = line.match(/^\s*(?:export\s+)?(?:default\s+)?(?:abstract\s+)?class\s+(\w+[^{]*)/))) {
+            outline.push(`class ${tidy(match[1])}`);
+        } else if ((match = line.match(/^\s*(?:export\s+)?interface\s+(\w+[^{]*)/))) {
+            outline.push(`interface ${tidy(match[1])}`);
+        } else if ((match = line.match(/^\s*(?:export\s+)?type\s+(\w+(?:<[^>]*>)?)\s*=/))) {
+            outline.push(`type ${match[1]}`);
+        } else if ((match = line.match(/^\s*(?:export\s+)?enum\s+(\w+)/))) {
+            outline.push(`enum ${match[1]}`);
+        } else if ((match = line.match(/^\s*(?:export\s+)?(?:default\s+)?(?:async\s+)?function\s*\*?\s*(\w+\s*(?:<[^>]*>)?\s*\([^)]*\)(?:\s*:\s*[^{]+)?)/))) {
+            outline.push(`function ${tidy(match[1])}`);
+        } else if ((match = line.match(/^(?:export\s+)?const\s+(\w+)\s*=\s*(?:async\s+)?(\([^)]*\)(?:\s*:\s*[^=]+)?)\s*=>/))) {
+            outline.push(`function ${match[1]}${tidy(match[2])}`);
+        } else if (isMember && (match = line.match(/^\s+((?:(?:public|protected|static|async|readonly|abstract|override|get|set)\s+)*)(\w+)\??\s*(<[^>]*>)?\s*\(([^)]*)\)\s*(:\s*[^{;]+)?\s*[{;]?\s*$/))) {
+            if (CONTROL_KEYWORDS.has(match[2]) || /\bprivate\b/.test(line)) continue;
+            outline.push(`  ${tidy(`${match[2]}${match[3] || ''}(${match[4]})${match[5] || ''}`)}`);
+        }
+    }
+    return outline;
+}
+
+/**
+ * Python outline (public classes, functions and methods)
+ */
+function extractPython(content: string): string[] {
+    const outline: string[] = [];
+    for (const line of content.split('\n')) {
+        let match: RegExpMatchArray | null;
+        if ((match = line.match(/^class\s+(\w+(?:\([^)]*\))?)\s*:/))) {
+            outline.push(`class ${match[1]}`);
+        } else if ((match = line.match(/^(\s*)(?:async\s+)?def\s+(\w+)\s*\(([^)]*)\)\s*(->\s*[^:]+)?:/))) {
+            const [, indent, name, params, returns] = match;
+            if (name.startsWith('_') && name !== '__init__') continue;
+            const signature = `${name}(${params.replace(/\s+/g, ' ').trim()})${returns ? ` ${returns.trim()}` : ''}`;
+            outline.push(indent ? `  ${signature}` : `def ${signature}`);
+        }
+    }
+    return outline;
+}
+
+/**
+ * C# / Java outline (type declarations and public/protected members)
+ */
+function extractCSharpOrJava(content: string): string[] {
+    const outline: string[] = [];
+    for (const line of content.split('\n')) {
+        let match: RegExpMatchArray | null;
+        if ((match = line.match(/^\s*(?:(?:public|internal|protected|private|static|abstract|sealed|partial|final|readonly)\s+)*(class|interface|record|enum|struct)\s+(\w+[^{]*)/))) {
+            outline.push(`${match[1]} ${tidy(match[2])}`);
+        } else if ((match = line.match(/^\s*(?:public|protected|internal)\s+((?:(?:static|virtual|override|abstract|async|sealed|final|synchronized|default|new)\s+)*)([\w<>\[\],.?]+(?:\s*<[^>]*>)?)\s+(\w+)\s*(<[^>]*>)?\s*\(([^)]*)\)/))) {
+            if (CONTROL_KEYWORDS.has(match[3])) continue;
+            outline.push(`  ${tidy(`${match[3]}${match[4] || ''}(${match[5]}): ${match[2]}`)}`);
+        }
+    }
+    return outline;
+}
+
+const EXTRACTORS: Record<string, Extractor> = {
+    '.ts': extractTypeScript,
+    '.tsx': extractTypeScript,
+    '.js': extractTypeScript,
+    '.jsx': extractTypeScript,
+    '.mjs': extractTypeScript,
+    '.cjs': extractTypeScript,
+    '.py': extractPython,
+    '.cs': extractCSharpOrJava,
+    '.java': extractCSharpOrJava,
+};
+
+function getExtractor(path: string): Extractor | undefined {
+    const dot = path.lastIndexOf('.');
+    return dot >= 0 ? EXTRACTORS[path.slice(dot).toLowerCase()] : undefined;
+}
+
+/**
+ * Checks whether a code map outline can be extracted for the given file
+ */
+export function isCodeMapSupported(path: string): boolean {
+    return !!getExtractor(path) && !shouldIgnoreFile(path) && !path.toLowerCase().endsWith('.d.ts');
+}
+
+/**
+ * Generates a code map for the given repository files.
+ *
+ * @param filePaths All file paths in the repository
+ * @param getContent Fetches a file's content (at the same commit as the file list)
+ * @param cacheKey Optional cache key (repository and commit SHA) to avoid regenerating the map
+ */
+export async function generateCodeMap(
+    filePaths: string[],
+    getContent: (path: string) => Promise<string>,
+    cacheKey?: string
+): Promise<string> {
+    if (cacheKey && codeMapCache.has(cacheKey)) {
+        const cached = codeMapCache.get(cacheKey)!;
+        codeMapCache.delete(cacheKey);
+        codeMapCache.set(cacheKey, cached);
+        return cached;
+    }
+
+    const supported = filePaths.filter(isCodeMapSupported).slice(0, MAX_CODEMAP_FILES);
+    const sections: string[] = [];
+    let totalTokens = 0;
+    let isFull = false;
+
+    for (let i = 0; i < supported.length && !isFull; i += FETCH_CONCURRENCY) {
+        const chunk = supported.slice(i, i + FETCH_CONCURRENCY);
+        const outlines = await Promise.all(chunk.map(async path => {
+            try {
+                const outline = getExtractor(path)!(await getContent(path));
+                return outline.length > 0 ? `=== ${path} ===\n${outline.join('\n')}` : null;
+            } catch (err: any) {
+                console.warn(`[CODEMAP] Failed to outline ${path}: ${err.message}`);
+                return null;
+            }
+        }));
+
+        for (const section of outlines) {
+            if (!section) continue;
+            const tokens = estimateTokens(section);
+            if (totalTokens + tokens > MAX_CODEMAP_TOKENS) {
+                isFull = true;
+                break;
+            }
+            sections.push(section);
+            totalTokens += tokens;
+        }
+    }
+
+    const codeMap = sections.join('\n\n');
+    if (cacheKey) {
+        codeMapCache.set(cacheKey, codeMap);
+        if (codeMapCache.size > MAX_CACHED_CODEMAPS) codeMapCache.delete(codeMapCache.keys().next().value!);
+    }
+    return codeMap;
+}
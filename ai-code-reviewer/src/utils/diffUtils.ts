@@ -0,0 +1,171 @@
+import { structuredPatch } from "diff";
+
+/**
+ * Utilities for working with unified diffs (hunks only, no file headers).
+ */
+
+export interface LineRange {
+    start: number;
+    end: number;
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * Creates a unified diff between two versions of a file.
+ * The output mirrors the `patch` field returned by the GitHub API: hunks only, no file headers.
+ */
+export function createUnifiedDiff(oldContent: string, newContent: string, contextLines: number = 3): string {
+    const patch = structuredPatch("a", "b", oldContent, newContent, undefined, undefined, { context: contextLines });
+
+    return patch.hunks
+        .map(hunk => {
+            const header = `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`;
+            return [header, ...hunk.lines].join('\n');
+        })
+        .join('\n');
+}
+
+/**
+ * Splits a multi-file git diff (e.g., from the Bitbucket Cloud diff endpoint) into per-file hunks.
+ * Keys are the new file paths; deleted files are omitted.
+ */
+export function splitUnifiedDiff(diff: string): Map<string, string> {
+    const files = new Map<string, string>();
+    let currentPath: string | null = null;
+    let hunkLines: string[] = [];
+
+    const flush = () => {
+        if (currentPath && hunkLines.length > 0) files.set(currentPath, hunkLines.join('\n'));
+        currentPath = null;
+        hunkLines = [];
+    };
+
+    for (const line of diff.split('\n')) {
+        if (line.startsWith('diff --git ')) {
+            flush();
+        } else if (hunkLines.length === 0 && line.startsWith('+++ ')) {
+            const path = line.slice(4).trim();
+            currentPath = path === '/dev/null' ? null : path.replace(/^b\//, '');
+        } else if (currentPath && (hunkLines.length > 0 || HUNK_HEADER.test(line))) {
+            hunkLines.push(line);
+        }
+    }
+    flush();
+
+    return files;
+}
+
+/**
+ * Returns the line ranges (1-based, in the new version of the file) that were added or modified.
+ * Where lines were only removed, the lines on either side of the removal count as changed too, so a diff
+ * that only removes lines is reviewed around the removal instead of as a whole file.
+ * Adjacent changed lines are merged into a single range. Empty only if there is no diff (or no lines are left).
+ */
+export function getChangedLineRanges(diff: string | undefined): LineRange[] {
+    return parseLineRanges(diff, true);
+}
+
+/**
+ * Returns the line ranges (1-based, in the new version of the file) of the added lines only,
+ * e.g. to anchor comments on lines that are shown as added in the diff.
+ */
+export function getAddedLineRanges(diff: string | undefined): LineRange[] {
+    return parseLineRanges(diff, false);
+}
+
+function parseLineRanges(diff: string | undefined, aroundRemovals: boolean): LineRange[] {
+    const ranges: LineRange[] = [];
+    if (!diff) return ranges;
+
+    const addRange = (start: number, end: number) => {
+        const last = ranges[ranges.length - 1];
+        if (last && last.end >= start - 1) {
+            last.end = Math.max(last.end, end);
+        } else {
+            ranges.push({ start, end });
+        }
+    };
+
+    let newLine = 0;
+    let hunkEnd = 0;
+    let isRemoval = false;      // Lines were removed, and no lines were added in their place
+    let isAfterAdded = false;
+    const endRemoval = () => {
+        // The removal sits between newLine - 1 and newLine
+        if (isRemoval && aroundRemovals) {
+            const start = Math.max(1, newLine - 1);
+            addRange(start, Math.max(start, Math.min(newLine, hunkEnd)));
+        }
+        isRemoval = false;
+    };
+
+    for (const line of diff.split('\n')) {
+        const header = HUNK_HEADER.exec(line);
+        if (header) {
+            endRemoval();
+            const start = parseInt(header[3], 10);
+            const count = header[4] !== undefined ? parseInt(header[4], 10) : 1;
+            // A hunk without new lines starts after the line it names
+            newLine = count > 0 ? start : start + 1;
+            hunkEnd = count > 0 ? start + count - 1 : start;
+            isAfterAdded = false;
+            continue;
+        }
+        if (newLine === 0 || line.startsWith('\\')) continue; // Outside a hunk or "\ No newline at end of file"
+
+        if (line.startsWith('+')) {
+            addRange(newLine, newLine);
+            isRemoval = false;
+            isAfterAdded = true;
+            newLine++;
+        } else if (line.startsWith('-')) {
+            if (!isAfterAdded) isRemoval = true;
+        } else {
+            endRemoval();
+            isAfterAdded = false;
+            newLine++; // Context line
+        }
+    }
+    endRemoval();
+
+    return ranges;
+}
+
+/**
+ * Returns the line ranges (1-based, in the new version of the file) covered by each hunk,
+ * including context lines. These are the lines that can carry inline review comments.
+ */
+export function getHunkLineRanges(diff: string): LineRange[] {
+    const ranges: LineRange[] = [];
+    if (!diff) return ranges;
+
+    for (const line of diff.split('\n')) {
+        const header = HUNK_HEADER.exec(line);
+        if (!header) continue;
+
+        const start = parseInt(header[3], 10);
+        const count = header[4] !== undefined ? parseInt(header[4], 10) : 1;
+        if (count > 0) ranges.push({ start, end: start + count - 1 });
+    }
+
+    return ranges;
+}
+
+/**
+ * Formats line ranges for use in prompts and logs (e.g., "3-7, 12, 40-41").
+ */
+export function formatLineRanges(ranges: LineRange[]): string {
+    return ranges
+        .map(r => r.start === r.end ? `${r.start}` : `${r.start}-${r.end}`)
+        .join(', ');
+}
+
+/**
+ * Checks whether the line span [startLine, endLine] overlaps any of the given ranges.
+ */
+export function overlapsLineRanges(startLine: number, endLine: number, ranges: LineRange[]): boolean {
+    const from = Math.min(startLine, endLine);
+    const to = Math.max(startLine, endLine);
+    return ranges.some(r => from <= r.end && to >= r.start);
+}
@@ -0,0 +1,50 @@
+import axios, { AxiosInstance } from "axios";
+import { env } from "../config/envVariables";
+
+/**
+ * GitLab Client Utility
+ * Handles communication with the GitLab REST API (gitlab.com or self-hosted)
+ */
+
+const gitlab: AxiosInstance = axios.create({
+    baseURL: `${(env.GITLAB_URL || "https://gitlab.com").replace(/\/+$/, "")}/api/v4`,
+    headers: {
+        "PRIVATE-TOKEN": env.GITLAB_TOKEN || ""
+    }
+});
+
+// Logging interceptor for debugging 404s and progress
+gitlab.interceptors.request.use(config => {
+    console.log(`[GitLab API Request] ${config.method?.toUpperCase()} ${config.baseURL}${config.url}`);
+    return config;
+});
+
+gitlab.interceptors.response.use(
+    response => response,
+    error => {
+        if (error.response) {
+            console.error(`[GitLab API Error] Status: ${error.response.status}`);
+            console.error(`[GitLab API Error] Resource: ${error.config.url}`);
+            console.error(`[GitLab API Error] Data:`, error.response.data);
+        }
+        return Promise.reject(error);
+    }
+);
+
+/**
+ * Fetch all pages of a paginated GitLab list endpoint
+ */
+export async function getAllPages<T>(url: string, params: Record<string, any> = {}): Promise<T[]> {
+    const results: T[] = [];
+    let page: string | undefined = "1";
+
+    while (page) {
+        const res = await gitlab.get<T[]>(url, { params: { ...params, per_page: 100, page } });
+        results.push(...res.data);
+        page = res.headers["x-next-page"] || undefined;
+    }
+
+    return results;
+}
+
+export default gitlab;
@@ -0,0 +1,69 @@
+import { matchesAnyGlob } from "../config/repoConfig";
+
+/**
+ * Review Guidelines Utility
+ * Resolves which guideline files apply to a changed file, similar to CODEOWNERS.
+ */
+
+export const NEAREST_GUIDELINES_FILE = 'REVIEW_GUIDELINES.md';
+
+/**
+ * The guidelines applied to a changed file
+ */
+export interface AppliedGuidelines {
+    paths: string[];    // Guideline files in the order they were merged
+    text?: string;      // Merged content, undefined if no guideline file applies
+}
+
+function normalizePath(path: string): string {
+    return path.replace(/^\/+/, '');
+}
+
+/**
+ * Guideline files configured for a file: the global file first, then every path mapping whose glob matches, in config order
+ */
+export function getConfiguredGuidelinePaths(filePath: string, globalPath: string | undefined, pathGuidelines: Record<string, string>): string[] {
+    const paths = globalPath ? [globalPath] : [];
+    for (const [glob, guidelinesPath] of Object.entries(pathGuidelines)) {
+        if (matchesAnyGlob(filePath, [glob]) && !paths.some(path => normalizePath(path) === normalizePath(guidelinesPath))) {
+            paths.push(guidelinesPath);
+        }
+    }
+    return paths;
+}
+
+/**
+ * Possible locations of the nearest REVIEW_GUIDELINES.md, from the file's folder up to the repository root.
+ * Keeps the file path's leading slash (AzDo paths are absolute).
+ */
+export function getNearestGuidelineCandidates(filePath: string): string[] {
+    const prefix = filePath.startsWith('/') ? '/' : '';
+    const folders = normalizePath(filePath).split('/').slice(0, -1);
+
+    const candidates: string[] = [];
+    for (let depth = folders.length; depth >= 0; depth--) {
+        candidates.push(prefix + [...folders.slice(0, depth), NEAREST_GUIDELINES_FILE].join('/'));
+    }
+    return candidates;
+}
+
+/**
+ * Merges guideline files into one text, each under a heading with its path so the AI can tell them apart
+ */
+export function mergeGuidelines(files: { path: string; content: string }[]): AppliedGuidelines {
+    const paths = files.map(file => file.path);
+    if (files.length === 0) return { paths };
+    if (files.length === 1) return { paths, text: files[0].content };
+
+    return {
+        paths,
+        text: files.map(file => `#### Guidelines from \`${normalizePath(file.path)}\`\n${file.content.trim()}`).join('\n\n')
+    };
+}
+
+/**
+ * Checks whether two guideline paths point at the same file
+ */
+export function isSameGuidelinePath(a: string, b: string): boolean {
+    return normalizePath(a) === normalizePath(b);
+}
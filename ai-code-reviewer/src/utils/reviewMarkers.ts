@@ -0,0 +1,33 @@
+/**
+ * Review Marker Utility
+ * Hidden markers in the bot's comments that record which commit is being reviewed or was last reviewed.
+ */
+
+export type ReviewMarkerKind = "reviewing" | "reviewed";
+export type ReviewMarkerStyle = "html" | "link";
+
+// Marks the summary comment so a re-review updates it instead of posting a new one
+export const SUMMARY_MARKER = "<!-- tech-lead-anna:summary -->";
+
+const MARKER_PATTERN = /(?:<!-- |\[\/\/\]: # \()tech-lead-anna:(reviewing|reviewed) ([0-9a-f]+)(?: -->|\))/gi;
+
+/**
+ * Formats a marker as an HTML comment, which GitHub and GitLab do not render, or as a Markdown
+ * link reference definition for platforms that show HTML comments as text (Bitbucket)
+ */
+export function formatReviewMarker(kind: ReviewMarkerKind, commitId: string, style: ReviewMarkerStyle = "html"): string {
+    return style === "link"
+        ? `[//]: # (tech-lead-anna:${kind} ${commitId})`
+        : `<!-- tech-lead-anna:${kind} ${commitId} -->`;
+}
+
+/**
+ * Returns the commits recorded by markers of the given kind, in the order they appear
+ */
+export function findMarkedCommits(text: string | undefined, kind: ReviewMarkerKind): string[] {
+    const commits: string[] = [];
+    for (const match of (text || "").matchAll(MARKER_PATTERN)) {
+        if (match[1].toLowerCase() === kind) commits.push(match[2]);
+    }
+    return commits;
+}
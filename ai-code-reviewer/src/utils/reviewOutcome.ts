@@ -0,0 +1,49 @@
+/**
+ * Review Outcome
+ * Tracks what happened to each changed file, so a review that did not cover every file is never taken for a clean one.
+ */
+
+export type FileOutcome = 'reviewed' | 'failed' | 'ignored' | 'oversized';
+
+export interface FailedFile {
+    path: string;
+    reason: string;
+}
+
+export class ReviewOutcome {
+    private files = new Map<string, { outcome: FileOutcome; reason?: string }>();
+
+    /**
+     * Records the outcome of a file, replacing an earlier one (e.g., a failed batch retried per file)
+     */
+    set(path: string, outcome: FileOutcome, reason?: string): void {
+        this.files.set(path, { outcome, reason });
+    }
+
+    /**
+     * Paths of the files with the given outcome, in the order they were first recorded
+     */
+    list(outcome: FileOutcome): string[] {
+        return [...this.files.entries()].filter(([, file]) => file.outcome === outcome).map(([path]) => path);
+    }
+
+    /**
+     * The files that could not be reviewed, with the reason
+     */
+    get failed(): FailedFile[] {
+        return [...this.files.entries()]
+            .filter(([, file]) => file.outcome === 'failed')
+            .map(([path, file]) => ({ path, reason: file.reason || 'unknown error' }));
+    }
+
+    /**
+     * True if every file was either reviewed or deliberately skipped (ignore rules, file_length rule)
+     */
+    get isComplete(): boolean {
+        return this.failed.length === 0;
+    }
+
+    get fileCount(): number {
+        return this.files.size;
+    }
+}
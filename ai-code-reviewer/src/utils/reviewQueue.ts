@@ -0,0 +1,41 @@
+import { InvocationContext, output } from "@azure/functions";
+
+/**
+ * Review Queue Utility
+ * Webhook functions enqueue review jobs; ReviewQueueWorker processes them outside the HTTP request.
+ */
+
+export const REVIEW_QUEUE_NAME = "review-jobs";
+export const REVIEW_POISON_QUEUE_NAME = `${REVIEW_QUEUE_NAME}-poison`;  // Filled by the Functions host after maxDequeueCount failures
+export const REVIEW_QUEUE_CONNECTION = "AzureWebJobsStorage";   // Azurite locally: "UseDevelopmentStorage=true"
+export const REVIEW_MAX_ATTEMPTS = 3;   // Keep in sync with maxDequeueCount in host.json
+
+export type ReviewPlatform = "azdo" | "github" | "gitlab" | "bitbucket";
+
+export interface ReviewJob {
+    platform: ReviewPlatform;
+    payload: any;                   // Webhook payload, already authenticated by the HTTP function
+    eventKey?: string | null;       // Bitbucket X-Event-Key header
+}
+
+/**
+ * Output binding to add to the `extraOutputs` of every webhook function
+ */
+export const reviewQueueOutput = output.storageQueue({
+    queueName: REVIEW_QUEUE_NAME,
+    connection: REVIEW_QUEUE_CONNECTION,
+});
+
+/**
+ * Enqueues a review job; the message is written when the HTTP function returns
+ */
+export function enqueueReviewJob(context: InvocationContext, job: ReviewJob): void {
+    context.extraOutputs.set(reviewQueueOutput, job);
+}
+
+/**
+ * Attempt number of the queued job being processed (1 on the first try)
+ */
+export function getReviewAttempt(context: InvocationContext): number {
+    return Number(context.triggerMetadata?.dequeueCount ?? 1);
+}
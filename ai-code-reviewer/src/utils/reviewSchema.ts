@@ -0,0 +1,139 @@
+import { SEVERITY_LEVELS } from "../config/repoConfig";
+import { AIReviewComment } from "./aiClient";
+import { ReviewFile } from "../prompts/reviewPrompts";
+
+/**
+ * Review Response Schema
+ * The shape the AI must return a review in, as a JSON Schema for provider-native structured output,
+ * and the validation applied to every response (which also checks line numbers against the reviewed files).
+ */
+
+/**
+ * Thrown when the AI response is still not a valid review after the repair retry, so the files were not reviewed
+ */
+export class InvalidReviewResponseError extends Error {
+    constructor(label: string, public readonly errors: string[]) {
+        super(`Invalid review response for ${label}: ${errors.join('; ')}`);
+        this.name = 'InvalidReviewResponseError';
+    }
+}
+
+/**
+ * JSON Schema of a review response. Every property is required and optional values are nullable,
+ * as OpenAI's strict structured output demands.
+ */
+export function getReviewJsonSchema(batched: boolean): Record<string, unknown> {
+    const properties: Record<string, unknown> = {
+        startLine: { type: 'integer', description: 'First line of the issue (1-based)' },
+        endLine: { type: 'integer', description: 'Last line of the issue (1-based)' },
+        severity: { type: 'string', enum: [...SEVERITY_LEVELS] },
+        comment: { type: 'string', description: 'The review comment, with the severity icon' },
+        suggestion: { type: ['string', 'null'], description: 'Replacement code for startLine..endLine, or null' },
+    };
+    if (batched) {
+        properties.filePath = { type: 'string', description: 'Path of the file, exactly as shown in its "### FILE:" header' };
+    }
+
+    return {
+        type: 'object',
+        properties: {
+            reviews: {
+                type: 'array',
+                items: { type: 'object', properties, required: Object.keys(properties), additionalProperties: false }
+            }
+        },
+        required: ['reviews'],
+        additionalProperties: false
+    };
+}
+
+function normalizePath(path: string): string {
+    return path.replace(/^\/+/, '');
+}
+
+/**
+ * Validates one review comment. Returns the errors, prefixed with the comment's position in the response.
+ */
+function validateComment(item: unknown, index: number, files: ReviewFile[], batched: boolean): { review?: AIReviewComment; errors: string[] } {
+    const at = `reviews[${index}]`;
+    if (typeof item !== 'object' || item === null || Array.isArray(item)) return { errors: [`${at} must be an object`] };
+
+    const raw = item as Record<string, unknown>;
+    const errors: string[] = [];
+
+    let file: ReviewFile | undefined = files[0];
+    if (batched) {
+        file = typeof raw.filePath === 'string'
+            ? files.find(f => normalizePath(f.fileName) === normalizePath(raw.filePath as string))
+            : undefined;
+        if (!file) errors.push(`${at}.filePath must be one of: ${files.map(f => f.fileName).join(', ')}`);
+    }
+
+    if (file) {
+        const lineCount = file.content.split('\n').length;
+        for (const key of ['startLine', 'endLine']) {
+            const line = raw[key];
+            if (!Number.isInteger(line) || (line as number) < 1 || (line as number) > lineCount) {
+                errors.push(`${at}.${key} must be an integer between 1 and ${lineCount} (the line count of ${file.fileName})`);
+            }
+        }
+        if (errors.length === 0 && (raw.startLine as number) > (raw.endLine as number)) {
+            errors.push(`${at}.startLine must not be after endLine`);
+        }
+    }
+    if (!SEVERITY_LEVELS.includes(raw.severity as any)) {
+        errors.push(`${at}.severity must be one of: ${SEVERITY_LEVELS.join(', ')}`);
+    }
+    if (typeof raw.comment !== 'string' || raw.comment.trim() === '') {
+        errors.push(`${at}.comment must be a non-empty string`);
+    }
+    if (raw.suggestion !== undefined && raw.suggestion !== null && typeof raw.suggestion !== 'string') {
+        errors.push(`${at}.suggestion must be a string or null`);
+    }
+    if (errors.length > 0) return { errors };
+
+    return {
+        errors,
+        review: {
+            ...(batched ? { filePath: raw.filePath as string } : {}),
+            startLine: raw.startLine as number,
+            endLine: raw.endLine as number,
+            severity: raw.severity as string,
+            comment: (raw.comment as string).trim(),
+            ...(typeof raw.suggestion === 'string' ? { suggestion: raw.suggestion } : {}),
+        }
+    };
+}
+
+/**
+ * Parses and validates a review response.
+ * `isParsed` is false if the response is not a JSON object with a "reviews" array, in which case nothing was reviewed.
+ * Otherwise `reviews` holds the valid comments and `errors` describes the invalid ones.
+ */
+export function validateReviewResponse(
+    rawResponse: string | null,
+    files: ReviewFile[],
+    batched: boolean
+): { isParsed: boolean; reviews: AIReviewComment[]; errors: string[] } {
+    if (!rawResponse?.trim()) return { isParsed: false, reviews: [], errors: ['The response is empty'] };
+
+    let parsed: unknown;
+    try {
+        // Some models might wrap JSON in triple backticks
+        parsed = JSON.parse(rawResponse.replace(/```json/g, "").replace(/```/g, "").trim());
+    } catch (err: any) {
+        return { isParsed: false, reviews: [], errors: [`The response is not valid JSON: ${err.message}`] };
+    }
+
+    const reviews = (parsed as { reviews?: unknown } | null)?.reviews;
+    if (!Array.isArray(reviews)) {
+        return { isParsed: false, reviews: [], errors: ['The response must be a JSON object with a "reviews" array'] };
+    }
+
+    const results = reviews.map((item, index) => validateComment(item, index, files, batched));
+    return {
+        isParsed: true,
+        reviews: results.flatMap(result => result.review ? [result.review] : []),
+        errors: results.flatMap(result => result.errors)
+    };
+}
@@ -0,0 +1,138 @@
+import { ReviewComment, ReviewStatus } from "../interfaces/PlatformAdapter";
+import { SUMMARY_MARKER } from "./reviewMarkers";
+import { ReviewOutcome } from "./reviewOutcome";
+
+/**
+ * Review Summary Utility
+ * Builds the Markdown overview posted with the review (GitHub review body, AzDo/GitLab/Bitbucket top-level comment).
+ */
+
+export interface ReviewSummaryData {
+    status: ReviewStatus;
+    approval: { policy: string; rule: string; status: ReviewStatus };   // The approval policy rule that applied
+    findings: ReviewComment[];      // All new findings, including the ones dropped by MAX_REVIEW_COMMENTS
+    postedCount: number;
+    maxComments?: number;
+    duplicateCount: number;         // Findings already raised in the PR
+    outcome: ReviewOutcome;         // What happened to each changed file
+    attempts?: number;              // Set when an incomplete review was retried by the queue
+    guidelineFiles: string[];       // Custom guideline files applied to at least one file
+    lastReviewedCommit?: string;    // Set on incremental re-reviews
+    assessment?: string;            // AI-written overall assessment
+    provider: string;
+    model: string;
+    personas?: string[];            // Set when several reviewer personas reviewed, with their provider and model if they set them
+}
+
+export const SUMMARY_HEADING = '### 🤖 Review Summary';
+
+const SEVERITIES = [
+    { key: 'critical', label: '🔴 Critical' },
+    { key: 'major', label: '🟡 Major' },
+    { key: 'minor', label: '🟢 Minor' },
+];
+
+const STATUS_LABELS: Record<ReviewStatus, string> = {
+    approved: '✅ Approved',
+    commented: '🟡 Suggestions',
+    no_vote: '⚪ No vote',
+    waiting: '⏳ Waiting',
+    changes_requested: '🔴 Changes requested',
+    rejected: '⛔ Rejected',
+};
+
+/**
+ * Formats a list of file paths, truncated so the summary stays readable on large PRs
+ */
+function formatFileList(paths: string[], max: number = 20): string {
+    const shown = paths.slice(0, max).map(path => `\`${path}\``).join(', ');
+    return paths.length > max ? `${shown} and ${paths.length - max} more` : shown;
+}
+
+/**
+ * Builds the Markdown summary of a review
+ */
+export function buildReviewSummary(data: ReviewSummaryData): string {
+    const lines: string[] = [];
+    const scope = data.lastReviewedCommit ? ` (changes since \`${data.lastReviewedCommit.slice(0, 8)}\`)` : '';
+
+    lines.push(SUMMARY_HEADING);
+    const { outcome } = data;
+    lines.push(`**Status:** ${STATUS_LABELS[data.status]} · **Files reviewed:** ${outcome.list('reviewed').length} of ${outcome.fileCount}${scope}`);
+    lines.push(`**Approval policy:** \`${data.approval.policy}\`, ${data.approval.rule} → ${STATUS_LABELS[data.approval.status]}`);
+
+    // Incomplete coverage comes first, so nobody reads the findings as a full review
+    if (!outcome.isComplete) {
+        const failed = outcome.failed;
+        const retried = data.attempts ? ` The review was attempted ${data.attempts} times.` : '';
+        lines.push('', `> ⚠️ **Incomplete review:** ${failed.length} of ${outcome.fileCount} files could not be reviewed, so this review is not an approval.${retried} Push a new commit or request another review to try again.`);
+        for (const file of failed.slice(0, 20)) {
+            lines.push(`> - \`${file.path}\`: ${file.reason}`);
+        }
+        if (failed.length > 20) {
+            lines.push(`> - and ${failed.length - 20} more`);
+        }
+    }
+
+    if (data.assessment) {
+        lines.push('', data.assessment.trim());
+    }
+
+    lines.push('', '| Severity | Findings |', '| :--- | ---: |');
+    for (const severity of SEVERITIES) {
+        lines.push(`| ${severity.label} | ${data.findings.filter(f => f.severity === severity.key).length} |`);
+    }
+
+    if (data.findings.length > 0) {
+        const files = [...new Set(data.findings.map(f => f.filePath))];
+        lines.push('', '| File | 🔴 | 🟡 | 🟢 |', '| :--- | ---: | ---: | ---: |');
+        for (const file of files) {
+            const counts = SEVERITIES.map(severity =>
+                data.findings.filter(f => f.filePath === file && f.severity === severity.key).length
+            );
+            lines.push(`| \`${file}\` | ${counts.join(' | ')} |`);
+        }
+    }
+
+    const notes: string[] = [];
+    if (outcome.fileCount === 0) {
+        const since = data.lastReviewedCommit ? `since \`${data.lastReviewedCommit.slice(0, 8)}\`` : 'in this pull request';
+        notes.push(`- No file changes to review ${since}, the status reflects the threads still open`);
+    }
+    const oversizedFiles = outcome.list('oversized');
+    if (oversizedFiles.length > 0) {
+        notes.push(`- Too large to review, flagged by the \`file_length\` rule: ${formatFileList(oversizedFiles)}`);
+    }
+    const ignoredFiles = outcome.list('ignored');
+    if (ignoredFiles.length > 0) {
+        notes.push(`- Skipped by the ignore list: ${formatFileList(ignoredFiles)}`);
+    }
+    if (data.guidelineFiles.length > 0) {
+        notes.push(`- Custom guidelines applied: ${formatFileList(data.guidelineFiles)}`);
+    }
+    const droppedCount = data.findings.length - data.postedCount;
+    if (droppedCount > 0) {
+        notes.push(`- ${droppedCount} lower-severity finding${droppedCount === 1 ? '' : 's'} not posted (\`MAX_REVIEW_COMMENTS\` = ${data.maxComments})`);
+    }
+    if (data.duplicateCount > 0) {
+        notes.push(`- ${data.duplicateCount} finding${data.duplicateCount === 1 ? '' : 's'} skipped as already raised in this pull request`);
+    }
+    if (notes.length > 0) {
+        lines.push('', ...notes);
+    }
+
+    const personas = data.personas ? ` as ${data.personas.join(', ')}` : '';
+    lines.push('', `<sub>Reviewed with ${data.provider} · ${data.model}${personas}</sub>`, '', SUMMARY_MARKER);
+    return lines.join('\n');
+}
+
+/**
+ * Replaces the summary inside a larger comment (e.g., a GitHub review body that also holds other text).
+ * Returns the text unchanged if it holds no summary.
+ */
+export function replaceReviewSummary(text: string, summary: string): string {
+    const start = text.indexOf(SUMMARY_HEADING);
+    const end = text.indexOf(SUMMARY_MARKER);
+    if (start < 0 || end < start) return text;
+    return text.slice(0, start) + summary + text.slice(end + SUMMARY_MARKER.length);
+}
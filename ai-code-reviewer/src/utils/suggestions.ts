@@ -0,0 +1,41 @@
+/**
+ * Code Suggestion Utility
+ * Validates AI-proposed replacement code and renders it as a Markdown block.
+ */
+
+/**
+ * Returns the suggestion if it can safely replace lines startLine..endLine of the file, otherwise undefined.
+ * Drops suggestions without a valid line range, empty ones (which would delete the lines) and no-op ones.
+ */
+export function sanitizeSuggestion(suggestion: unknown, content: string, startLine?: number, endLine?: number): string | undefined {
+    if (typeof suggestion !== 'string') return undefined;
+
+    const start = startLine || endLine;
+    const lines = content.split(/\r?\n/);
+    if (!start || !endLine || start < 1 || start > endLine || endLine > lines.length) return undefined;
+
+    // The AI sometimes wraps the code in its own fence
+    const code = suggestion
+        .replace(/^\s*```[\w-]*[ \t]*\r?\n/, '')
+        .replace(/\r?\n```\s*$/, '')
+        .replace(/\r?\n$/, '');
+    if (code.trim() === '') return undefined;
+
+    const original = lines.slice(start - 1, endLine).join('\n');
+    if (code.replace(/\s+$/gm, '') === original.replace(/\s+$/gm, '')) return undefined;
+
+    return code;
+}
+
+/**
+ * Appends the suggestion to the comment as a fenced block with the given info string
+ * (e.g., "suggestion" for a committable suggestion, or "" for a plain code block).
+ */
+export function appendSuggestion(comment: string, suggestion: string | undefined, info: string = 'suggestion'): string {
+    if (!suggestion) return comment;
+
+    // Use a longer fence when the code itself contains backtick fences
+    const longestRun = Math.max(0, ...(suggestion.match(/`+/g) || []).map(run => run.length));
+    const fence = '`'.repeat(Math.max(3, longestRun + 1));
+    return `${comment}\n\n${fence}${info}\n${suggestion}\n${fence}`;
+}
@@ -0,0 +1,31 @@
+/**
+ * Text Similarity Utility
+ * Compares review comments regardless of formatting, emoji, punctuation and casing.
+ */
+
+/**
+ * Lowercases the text and drops markdown, emoji and punctuation
+ */
+export function normalizeCommentText(text: string): string {
+    return (text || '')
+        .replace(/^\*\*(File|Lines?)\b.*$/gim, ' ')    // Location headers added when a comment is posted
+        .toLowerCase()
+        .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+/**
+ * Dice coefficient of the two texts' word sets: 1 for the same words, 0 for no words in common
+ */
+export function textSimilarity(a: string, b: string): number {
+    const wordsA = new Set(normalizeCommentText(a).split(' ').filter(Boolean));
+    const wordsB = new Set(normalizeCommentText(b).split(' ').filter(Boolean));
+    if (wordsA.size === 0 || wordsB.size === 0) return 0;
+
+    let common = 0;
+    for (const word of wordsA) {
+        if (wordsB.has(word)) common++;
+    }
+    return (2 * common) / (wordsA.size + wordsB.size);
+}
@@ -0,0 +1,7 @@
+/**
+ * Rough token estimation used to decide whether a batched prompt fits the configured budget.
+ * Uses the common ~4 characters per token approximation; no provider-specific tokenizer needed.
+ */
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
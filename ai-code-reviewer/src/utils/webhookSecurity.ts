@@ -0,0 +1,138 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+/**
+ * Webhook Security Utility
+ * Verifies that incoming webhooks were sent by the code host and were not replayed.
+ */
+
+const DELIVERY_TTL_MS = 24 * 60 * 60 * 1000;   // Remember delivery IDs for 24 hours
+const MAX_TRACKED_DELIVERIES = 10000;
+
+// In-memory, per-instance record of queued delivery IDs (ID -> time queued). Best-effort only: scaled-out or
+// restarted instances don't share it, but the PR lock and review markers still keep a replay from reviewing a commit twice.
+const seenDeliveries = new Map<string, number>();
+
+/**
+ * Compares two strings in constant time
+ */
+export function safeEqual(a: string, b: string): boolean {
+    const bufferA = Buffer.from(a);
+    const bufferB = Buffer.from(b);
+    return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB);
+}
+
+/**
+ * Verifies a `sha256=<hex>` signature header (HMAC-SHA256 of the raw request body)
+ */
+function verifySha256Signature(rawBody: string, signatureHeader: string | null, secret: string): boolean {
+    if (!signatureHeader || !secret) return false;
+    const expected = `sha256=${createHmac("sha256", secret).update(rawBody, "utf8").digest("hex")}`;
+    return safeEqual(expected, signatureHeader);
+}
+
+/**
+ * Verifies a GitHub `X-Hub-Signature-256` header
+ */
+export function verifyGitHubSignature(rawBody: string, signatureHeader: string | null, secret: string): boolean {
+    return verifySha256Signature(rawBody, signatureHeader, secret);
+}
+
+/**
+ * Verifies a Bitbucket `X-Hub-Signature` header, sent by both Bitbucket Cloud and Data Center when the webhook has a secret
+ */
+export function verifyBitbucketSignature(rawBody: string, signatureHeader: string | null, secret: string): boolean {
+    return verifySha256Signature(rawBody, signatureHeader, secret);
+}
+
+/**
+ * Verifies an Azure DevOps service hook against the shared secret.
+ * Accepts either basic auth (password = secret, username optional) or the `X-Anna-Secret` header.
+ */
+export function verifyAzDoSecret(
+    authorizationHeader: string | null,
+    secretHeader: string | null,
+    secret: string,
+    expectedUsername?: string
+): boolean {
+    if (!secret) return false;
+
+    if (secretHeader) {
+        return safeEqual(secretHeader, secret);
+    }
+
+    if (authorizationHeader?.toLowerCase().startsWith("basic ")) {
+        const decoded = Buffer.from(authorizationHeader.slice(6).trim(), "base64").toString("utf8");
+        const separator = decoded.indexOf(":");
+        if (separator < 0) return false;
+
+        const username = decoded.slice(0, separator);
+        const password = decoded.slice(separator + 1);
+        const usernameMatches = !expectedUsername || safeEqual(username, expectedUsername);
+        return safeEqual(password, secret) && usernameMatches;
+    }
+
+    return false;
+}
+
+/**
+ * Extracts the organization name from an Azure DevOps URL
+ * (https://dev.azure.com/{org}/... or https://{org}.visualstudio.com/...)
+ */
+function getAzDoOrgName(url: string): string | null {
+    const match = url.match(/^https:\/\/dev\.azure\.com\/([^/]+)/i) || url.match(/^https:\/\/([^./]+)\.visualstudio\.com/i);
+    return match ? decodeURIComponent(match[1]).toLowerCase() : null;
+}
+
+/**
+ * Checks whether a URL is under a base URL: same origin and path prefix, ignoring case
+ */
+function isUrlUnder(url: string, baseUrl: string): boolean {
+    try {
+        const target = new URL(url);
+        const base = new URL(baseUrl);
+        const basePath = base.pathname.replace(/\/+$/, "").toLowerCase();
+        const targetPath = target.pathname.toLowerCase();
+        return target.origin.toLowerCase() === base.origin.toLowerCase()
+            && (targetPath === basePath || targetPath.startsWith(`${basePath}/`));
+    } catch {
+        return false;   // Not a valid URL
+    }
+}
+
+/**
+ * Checks that a repository URL from an Azure DevOps payload belongs to the configured organization.
+ * Azure DevOps Server URLs (e.g., https://tfs.example.com/tfs/Collection) are compared by origin and path prefix.
+ */
+export function isAzDoUrlInOrg(repositoryUrl: string | undefined, orgUrl: string): boolean {
+    if (!repositoryUrl || !orgUrl) return false;
+    const expectedOrg = getAzDoOrgName(orgUrl);
+    if (!expectedOrg) return isUrlUnder(repositoryUrl, orgUrl);
+    return getAzDoOrgName(repositoryUrl) === expectedOrg;
+}
+
+/**
+ * Drops expired delivery IDs; Map iteration is in insertion order, so stop at the first fresh one
+ */
+function pruneDeliveries(now: number): void {
+    for (const [id, seenAt] of seenDeliveries) {
+        if (now - seenAt < DELIVERY_TTL_MS && seenDeliveries.size < MAX_TRACKED_DELIVERIES) break;
+        seenDeliveries.delete(id);
+    }
+}
+
+/**
+ * Returns true if a webhook delivery with this ID has already been queued (i.e., a replay)
+ */
+export function isReplayedDelivery(deliveryId: string): boolean {
+    pruneDeliveries(Date.now());
+    return seenDeliveries.has(deliveryId);
+}
+
+/**
+ * Records a queued webhook delivery. Call it only once the review is queued, so a redelivery of a failed one is accepted.
+ */
+export function recordDelivery(deliveryId: string): void {
+    const now = Date.now();
+    pruneDeliveries(now);
+    seenDeliveries.set(deliveryId, now);
+}
@@ -0,0 +1,66 @@
+import { APPROVAL_PRESETS, applyApprovalPolicy, countFindings, FindingCounts, parseApprovalPolicy } from "../src/config/approvalPolicy";
+
+const NONE: FindingCounts = { critical: 0, major: 0, minor: 0, findings: 0, blocking: 0 };
+
+describe("countFindings", () => {
+    it("counts per severity, counting unknown severities as minor", () => {
+        const findings = [{ severity: "critical" }, { severity: "major" }, { severity: "major" }, { severity: "minor" }, { severity: "nit" }];
+        expect(countFindings(findings, 2)).toEqual({ critical: 1, major: 2, minor: 2, findings: 5, blocking: 2 });
+    });
+});
+
+describe("applyApprovalPolicy with the presets", () => {
+    it("default: requests changes for red flags, comments on findings, approves otherwise", () => {
+        const policy = APPROVAL_PRESETS.default;
+        expect(applyApprovalPolicy(policy, { ...NONE, blocking: 1, findings: 1 }).status).toBe("changes_requested");
+        expect(applyApprovalPolicy(policy, { ...NONE, critical: 1, findings: 1 }).status).toBe("commented");
+        expect(applyApprovalPolicy(policy, NONE)).toEqual({ status: "approved", rule: "no rule matched" });
+    });
+
+    it("strict: also requests changes for a critical finding", () => {
+        expect(applyApprovalPolicy(APPROVAL_PRESETS.strict, { ...NONE, critical: 1, findings: 1 })).toEqual({ status: "changes_requested", rule: "≥ 1 critical" });
+        expect(applyApprovalPolicy(APPROVAL_PRESETS.strict, { ...NONE, major: 1, findings: 1 }).status).toBe("commented");
+    });
+
+    it("comment_only: always comments, even for red flags", () => {
+        expect(applyApprovalPolicy(APPROVAL_PRESETS.comment_only, { ...NONE, blocking: 3 })).toEqual({ status: "commented", rule: "always" });
+        expect(applyApprovalPolicy(APPROVAL_PRESETS.comment_only, NONE).status).toBe("commented");
+    });
+});
+
+describe("parseApprovalPolicy", () => {
+    it("accepts a preset name", () => {
+        expect(parseApprovalPolicy(" strict ").policy).toBe(APPROVAL_PRESETS.strict);
+        expect(parseApprovalPolicy("lenient").error).toMatch(/must be one of: default, strict, comment_only/);
+    });
+
+    it("parses a custom policy, with approved as the default otherwise", () => {
+        const { policy, error } = parseApprovalPolicy({ rules: [{ critical: 1, major: 2, status: "rejected" }, { findings: 1, status: "commented" }] });
+        expect(error).toBeUndefined();
+        expect(policy).toEqual({
+            name: "custom",
+            rules: [{ when: { critical: 1, major: 2 }, status: "rejected" }, { when: { findings: 1 }, status: "commented" }],
+            otherwise: "approved",
+        });
+    });
+
+    it("applies the first rule whose conditions are all met", () => {
+        const { policy } = parseApprovalPolicy({ rules: [{ critical: 1, major: 2, status: "rejected" }, { critical: 1, status: "changes_requested" }], otherwise: "no_vote" });
+        expect(applyApprovalPolicy(policy!, { ...NONE, critical: 1, major: 2, findings: 3 })).toEqual({ status: "rejected", rule: "≥ 1 critical and ≥ 2 major" });
+        expect(applyApprovalPolicy(policy!, { ...NONE, critical: 1, major: 1, findings: 2 }).status).toBe("changes_requested");
+        expect(applyApprovalPolicy(policy!, { ...NONE, minor: 4, findings: 4 }).status).toBe("no_vote");
+    });
+
+    it.each([
+        [{ rules: [{ critical: 1 }] }, /rule 1 `status` must be one of/],
+        [{ rules: [{ blockers: 1, status: "rejected" }] }, /rule 1 has an unknown condition `blockers`/],
+        [{ rules: [{ critical: 0, status: "rejected" }] }, /rule 1 `critical` must be a positive integer/],
+        [{ rules: [{ status: "rejected" }] }, /rule 1 needs at least one condition/],
+        [{ rules: [], otherwise: "merged" }, /`otherwise` must be one of/],
+        [{ rules: [], strict: true }, /unknown setting `strict`/],
+        [{ otherwise: "approved" }, /`rules` must be a list of rules/],
+        [42, /must be a preset name or a mapping/],
+    ])("rejects %j", (value, error) => {
+        expect(parseApprovalPolicy(value).error).toMatch(error);
+    });
+});
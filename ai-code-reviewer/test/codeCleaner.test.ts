@@ -0,0 +1,82 @@
+import { analyzeCode, cleanCodeContent, getLanguage } from "../src/utils/codeCleaner";
+
+describe("getLanguage", () => {
+    it("maps the extension, ignoring case", () => {
+        expect(getLanguage("src/App.TSX")).toBe("typescript");
+        expect(getLanguage("scripts/build.sh")).toBe("shell");
+        expect(getLanguage("Makefile")).toBeUndefined();
+    });
+});
+
+describe("analyzeCode", () => {
+    it("separates code, comments and blank lines of TypeScript", () => {
+        const content = [
+            "// header",
+            "const url = \"http://example.com\"; // trailing",
+            "",
+            "/* block",
+            "   comment */",
+            "const re = /\\/\\*/g;",
+        ].join("\n");
+        const { codeLines, commentLines, stats } = analyzeCode(content, "a.ts");
+
+        expect(stats).toEqual({ totalLines: 6, codeLines: 2, commentLines: 3, blankLines: 1 });
+        expect(commentLines[0]).toBe("// header");
+        expect(commentLines[1].trim()).toBe("// trailing");
+        expect(commentLines[4].trim()).toBe("comment */");
+        expect(commentLines[5]).toBe("");
+        // Literals are blanked out so structural checks don't see them
+        expect(codeLines[1]).toBe("const url = " + " ".repeat(20) + ";");
+        expect(codeLines[5]).toMatch(/^const re = \s+g;$/);
+    });
+
+    it("blanks out template literals but keeps the code of their expressions", () => {
+        const { codeLines, commentLines } = analyzeCode("const s = `a ${fn({ x: 1 })} // b`;", "a.ts");
+        expect(codeLines[0]).toContain("fn({ x: 1 })");
+        expect(codeLines[0]).not.toContain("// b");
+        expect(commentLines[0]).toBe("");
+    });
+
+    it("does not treat comment markers inside strings as comments", () => {
+        const { commentLines } = analyzeCode("log(\"TODO: /* not a comment */\");", "a.js");
+        expect(commentLines).toEqual([""]);
+    });
+
+    it("treats standalone Python strings as docstrings", () => {
+        const content = "def f():\n    \"\"\"Docs.\"\"\"\n    x = \"value\"  # note\n";
+        const { commentLines, stats } = analyzeCode(content, "a.py");
+        expect(stats).toMatchObject({ codeLines: 2, commentLines: 1 });
+        expect(commentLines[1].trim()).toBe("\"\"\"Docs.\"\"\"");
+        expect(commentLines[2].trim()).toBe("# note");
+    });
+
+    it("only starts YAML quoted strings at the start of a scalar", () => {
+        const content = "title: It's fine # comment\nquoted: 'a # b'\n";
+        const { commentLines } = analyzeCode(content, "a.yaml");
+        expect(commentLines[0].trim()).toBe("# comment");
+        expect(commentLines[1]).toBe("");
+    });
+
+    it("only starts shell and YAML comments after whitespace", () => {
+        expect(analyzeCode("echo a#b # c", "a.sh").commentLines[0].trim()).toBe("# c");
+    });
+
+    it("counts every line as code for unknown languages", () => {
+        expect(analyzeCode("# not a comment\n", "notes.txt").stats).toEqual({ totalLines: 2, codeLines: 1, commentLines: 0, blankLines: 1 });
+    });
+
+    it("classifies a very long line in linear time", () => {
+        const line = "var a=\"x\",b=1/2,c=`t${d}`;".repeat(25000);
+        const started = Date.now();
+        const { stats } = analyzeCode(`${line}\n// end`, "bundle.min.js");
+        expect(stats).toMatchObject({ codeLines: 1, commentLines: 1 });
+        expect(Date.now() - started).toBeLessThan(5000);
+    });
+});
+
+describe("cleanCodeContent", () => {
+    it("removes comments and comment-only lines, and collapses blank lines", () => {
+        const content = "// header\nconst a = 1; // one\n\n\n/* gone */\nconst b = \"// kept\";\n";
+        expect(cleanCodeContent(content, "a.ts")).toBe("const a = 1;\n\nconst b = \"// kept\";");
+    });
+});
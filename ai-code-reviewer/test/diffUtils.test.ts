@@ -0,0 +1,79 @@
+import { createUnifiedDiff, getAddedLineRanges, getChangedLineRanges, getHunkLineRanges, splitUnifiedDiff } from "../src/utils/diffUtils";
+
+describe("getChangedLineRanges", () => {
+    it("returns no ranges without a diff", () => {
+        expect(getChangedLineRanges("")).toEqual([]);
+        expect(getChangedLineRanges(undefined)).toEqual([]);
+    });
+
+    it("merges adjacent added lines and skips context lines", () => {
+        const diff = [
+            "@@ -1,4 +1,6 @@",
+            " a",
+            "+b",
+            "+c",
+            " d",
+            "+e",
+            " f",
+        ].join("\n");
+        expect(getChangedLineRanges(diff)).toEqual([{ start: 2, end: 3 }, { start: 5, end: 5 }]);
+    });
+
+    it("counts a modified line once, at its new position", () => {
+        const diff = "@@ -1,3 +1,3 @@\n a\n-b\n+B\n c";
+        expect(getChangedLineRanges(diff)).toEqual([{ start: 2, end: 2 }]);
+    });
+
+    it("follows the new line numbers of every hunk", () => {
+        const diff = "@@ -1,2 +1,3 @@\n a\n+b\n c\n@@ -20,2 +21,3 @@\n x\n+y\n z";
+        expect(getChangedLineRanges(diff)).toEqual([{ start: 2, end: 2 }, { start: 22, end: 22 }]);
+    });
+
+    it("returns the lines around a removal when lines were only removed", () => {
+        expect(getChangedLineRanges("@@ -1,7 +1,6 @@\n a\n b\n c\n-d\n e\n f\n g")).toEqual([{ start: 3, end: 4 }]);
+        expect(getChangedLineRanges("@@ -1,4 +1,3 @@\n-a\n b\n c\n d")).toEqual([{ start: 1, end: 1 }]);
+        expect(getChangedLineRanges("@@ -5,4 +5,3 @@\n e\n f\n g\n-h")).toEqual([{ start: 7, end: 7 }]);
+        expect(getChangedLineRanges(createUnifiedDiff("a\nb\nc\nd\ne\n", "a\nb\nd\ne\n"))).toEqual([{ start: 2, end: 3 }]);
+    });
+
+    it("ignores the \"No newline at end of file\" marker", () => {
+        const diff = "@@ -1 +1 @@\n-a\n\\ No newline at end of file\n+b\n\\ No newline at end of file";
+        expect(getChangedLineRanges(diff)).toEqual([{ start: 1, end: 1 }]);
+    });
+});
+
+describe("getAddedLineRanges", () => {
+    it("returns only the added lines, none for a removal", () => {
+        expect(getAddedLineRanges("@@ -1,5 +1,5 @@\n a\n+x\n b\n-c\n d")).toEqual([{ start: 2, end: 2 }]);
+        expect(getAddedLineRanges("@@ -1,3 +1,2 @@\n a\n-b\n c")).toEqual([]);
+    });
+});
+
+describe("getHunkLineRanges", () => {
+    it("returns the new lines covered by each hunk, skipping empty ones", () => {
+        const diff = "@@ -1,3 +1,4 @@\n a\n+b\n c\n d\n@@ -10,1 +11,0 @@\n-x";
+        expect(getHunkLineRanges(diff)).toEqual([{ start: 1, end: 4 }]);
+    });
+});
+
+describe("splitUnifiedDiff", () => {
+    it("splits a multi-file diff into hunks per new path, without deleted files", () => {
+        const diff = [
+            "diff --git a/src/a.ts b/src/a.ts",
+            "--- a/src/a.ts",
+            "+++ b/src/a.ts",
+            "@@ -1 +1 @@",
+            "-x",
+            "+y",
+            "diff --git a/old.ts b/old.ts",
+            "--- a/old.ts",
+            "+++ /dev/null",
+            "@@ -1 +0,0 @@",
+            "-gone",
+        ].join("\n");
+
+        const files = splitUnifiedDiff(diff);
+        expect([...files.keys()]).toEqual(["src/a.ts"]);
+        expect(files.get("src/a.ts")).toBe("@@ -1 +1 @@\n-x\n+y");
+    });
+});
@@ -0,0 +1,82 @@
+import { findIgnoreRule, parseGitAttributes, parseIgnoreRules, shouldIgnoreFile } from "../src/config/ignoreFiles";
+
+describe("shouldIgnoreFile with the built-in list", () => {
+    it("ignores lock files, build output and binaries at any depth", () => {
+        expect(shouldIgnoreFile("package-lock.json")).toBe(true);
+        expect(shouldIgnoreFile("apps/web/package-lock.json")).toBe(true);
+        expect(shouldIgnoreFile("node_modules/lib/index.js")).toBe(true);
+        expect(shouldIgnoreFile("/docs/manual.PDF")).toBe(true);
+    });
+
+    it("reviews source files", () => {
+        expect(shouldIgnoreFile("src/index.ts")).toBe(false);
+        expect(shouldIgnoreFile("/src/services/ReviewService.ts")).toBe(false);
+    });
+});
+
+describe("parseIgnoreRules", () => {
+    it("skips blank lines and comments and keeps the rule text and source", () => {
+        const rules = parseIgnoreRules(["", "# generated", "*.gen.ts"], ".anna.yml");
+        expect(rules).toHaveLength(1);
+        expect(rules[0]).toMatchObject({ text: "*.gen.ts", source: ".anna.yml", negated: false, anchored: false });
+    });
+
+    it("matches unanchored patterns at any depth and anchored ones from the root", () => {
+        const rules = parseIgnoreRules(["*.snap", "/build", "docs/api/"], "test");
+        expect(shouldIgnoreFile("src/__snapshots__/a.test.ts.snap", rules)).toBe(true);
+        expect(shouldIgnoreFile("build/out.js", rules)).toBe(true);
+        expect(shouldIgnoreFile("src/build/out.js", rules)).toBe(false);
+        expect(shouldIgnoreFile("docs/api/index.md", rules)).toBe(true);
+        expect(shouldIgnoreFile("src/docs/api/index.md", rules)).toBe(false);
+    });
+
+    it("only matches directories with a trailing slash", () => {
+        const rules = parseIgnoreRules(["vendor/"], "test");
+        expect(shouldIgnoreFile("vendor/lib.go", rules)).toBe(true);
+        expect(shouldIgnoreFile("src/vendor/lib.go", rules)).toBe(true);
+        expect(shouldIgnoreFile("vendor", rules)).toBe(false);
+    });
+
+    it("supports ** and lets the last matching rule decide", () => {
+        const rules = parseIgnoreRules(["generated/**", "!generated/keep/**", "generated/keep/tmp.ts"], "test");
+        expect(shouldIgnoreFile("generated/a/b.ts", rules)).toBe(true);
+        expect(shouldIgnoreFile("generated/keep/api.ts", rules)).toBe(false);
+        expect(shouldIgnoreFile("generated/keep/tmp.ts", rules)).toBe(true);
+        expect(findIgnoreRule("generated/keep/api.ts", rules)?.text).toBe("!generated/keep/**");
+    });
+
+    it("re-includes a file ignored by the built-in list with a negated rule", () => {
+        const rules = [...parseIgnoreRules(["*.pdf"], "built-in list"), ...parseIgnoreRules(["!docs/spec.pdf"], ".anna.yml")];
+        expect(shouldIgnoreFile("docs/spec.pdf", rules)).toBe(false);
+        expect(shouldIgnoreFile("docs/other.pdf", rules)).toBe(true);
+    });
+
+    it("treats an escaped first character literally", () => {
+        const rules = parseIgnoreRules(["\\#notes.md", "\\!important.txt"], "test");
+        expect(shouldIgnoreFile("#notes.md", rules)).toBe(true);
+        expect(shouldIgnoreFile("!important.txt", rules)).toBe(true);
+        expect(rules.every(rule => !rule.negated)).toBe(true);
+    });
+});
+
+describe("parseGitAttributes", () => {
+    it("ignores linguist-generated and linguist-vendored files and re-includes unset ones", () => {
+        const rules = parseGitAttributes([
+            "# comment",
+            "*.pb.go linguist-generated",
+            "third_party/** linguist-vendored=true",
+            "third_party/ours/** -linguist-vendored",
+            "*.md text",
+        ].join("\n"));
+
+        expect(rules.map(r => r.text)).toEqual([
+            "*.pb.go linguist-generated",
+            "third_party/** linguist-vendored=true",
+            "third_party/ours/** -linguist-vendored",
+        ]);
+        expect(shouldIgnoreFile("api/service.pb.go", rules)).toBe(true);
+        expect(shouldIgnoreFile("third_party/lib/a.c", rules)).toBe(true);
+        expect(shouldIgnoreFile("third_party/ours/a.c", rules)).toBe(false);
+        expect(shouldIgnoreFile("README.md", rules)).toBe(false);
+    });
+});
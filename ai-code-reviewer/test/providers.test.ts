@@ -0,0 +1,149 @@
+import { createServer, IncomingHttpHeaders, Server } from "http";
+import { AddressInfo } from "net";
+
+/**
+ * Runs the AI providers against a local HTTP server that mimics the OpenAI and Anthropic APIs.
+ * The provider settings are read from the environment when the modules load, so each test loads them afresh.
+ */
+
+interface RecordedRequest {
+    path: string;
+    headers: IncomingHttpHeaders;
+    body: any;
+}
+
+const REVIEW = { reviews: [{ startLine: 2, endLine: 2, severity: "major", comment: "🟡 Missing null check", suggestion: null }] };
+const FILE_CONTENT = "const a = load();\nconst b = a.value;\n";
+
+let server: Server;
+let baseUrl: string;
+let requests: RecordedRequest[] = [];
+let rejectJsonSchema = false;
+
+function sendJson(res: any, status: number, body: unknown): void {
+    res.writeHead(status, { "content-type": "application/json" });
+    res.end(JSON.stringify(body));
+}
+
+beforeAll(async () => {
+    server = createServer((req, res) => {
+        let raw = "";
+        req.on("data", chunk => raw += chunk);
+        req.on("end", () => {
+            const body = raw ? JSON.parse(raw) : undefined;
+            requests.push({ path: req.url || "", headers: req.headers, body });
+
+            if (req.url === "/v1/chat/completions") {
+                if (rejectJsonSchema && body.response_format?.type === "json_schema") {
+                    return sendJson(res, 400, { error: { message: "response_format json_schema is not supported by this model", type: "invalid_request_error" } });
+                }
+                return sendJson(res, 200, {
+                    id: "chatcmpl-1",
+                    object: "chat.completion",
+                    created: 0,
+                    model: body.model,
+                    choices: [{ index: 0, finish_reason: "stop", message: { role: "assistant", content: JSON.stringify(REVIEW) } }],
+                });
+            }
+            if (req.url === "/v1/messages") {
+                return sendJson(res, 200, {
+                    id: "msg_1",
+                    type: "message",
+                    role: "assistant",
+                    model: body.model,
+                    content: [{ type: "tool_use", id: "toolu_1", name: body.tool_choice.name, input: REVIEW }],
+                    stop_reason: "tool_use",
+                    usage: { input_tokens: 1, output_tokens: 1 },
+                });
+            }
+            sendJson(res, 404, { error: { message: `Unexpected path ${req.url}` } });
+        });
+    });
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+});
+
+const originalEnv = { ...process.env };
+
+beforeEach(() => {
+    requests = [];
+    rejectJsonSchema = false;
+    jest.spyOn(console, "warn").mockImplementation(() => { });
+});
+
+afterEach(() => {
+    process.env = { ...originalEnv };
+    jest.restoreAllMocks();
+});
+
+/**
+ * Loads a fresh copy of the AI client with the given settings
+ */
+function loadAIClient(settings: Record<string, string>): typeof import("../src/utils/aiClient") {
+    Object.assign(process.env, settings);
+    let aiClient: typeof import("../src/utils/aiClient");
+    jest.isolateModules(() => {
+        aiClient = require("../src/utils/aiClient");
+    });
+    return aiClient!;
+}
+
+describe("AI providers", () => {
+    it("sends OpenAI-compatible requests to AI_BASE_URL with AI_API_KEY and parses the structured output", async () => {
+        const { reviewWithAI } = loadAIClient({ AI_PROVIDER: "ollama", AI_API_KEY: "shared-key", AI_BASE_URL: `${baseUrl}/v1` });
+
+        const reviews = await reviewWithAI("src/a.ts", FILE_CONTENT, undefined, undefined, undefined, "local-model");
+
+        expect(reviews).toEqual([{ startLine: 2, endLine: 2, severity: "major", comment: "🟡 Missing null check" }]);
+        expect(requests).toHaveLength(1);
+        expect(requests[0].path).toBe("/v1/chat/completions");
+        expect(requests[0].headers.authorization).toBe("Bearer shared-key");
+        expect(requests[0].body.model).toBe("local-model");
+        expect(requests[0].body.response_format.type).toBe("json_schema");
+        expect(requests[0].body.response_format.json_schema.schema.required).toEqual(["reviews"]);
+    });
+
+    it("uses the provider's own API key over AI_API_KEY and parses Anthropic's forced tool call", async () => {
+        const { reviewWithAI } = loadAIClient({
+            AI_PROVIDER: "anthropic",
+            AI_API_KEY: "shared-key",
+            ANTHROPIC_API_KEY: "anthropic-key",
+            AI_BASE_URL: baseUrl,
+        });
+
+        const reviews = await reviewWithAI("src/a.ts", FILE_CONTENT, undefined, undefined, undefined, "claude-model");
+
+        expect(reviews).toHaveLength(1);
+        expect(reviews[0]).toMatchObject({ startLine: 2, severity: "major" });
+        expect(requests).toHaveLength(1);
+        expect(requests[0].path).toBe("/v1/messages");
+        expect(requests[0].headers["x-api-key"]).toBe("anthropic-key");
+        expect(requests[0].body.tool_choice).toEqual({ type: "tool", name: requests[0].body.tools[0].name });
+    });
+
+    it("falls back to plain JSON once when the model rejects structured output", async () => {
+        rejectJsonSchema = true;
+        const { reviewWithAI } = loadAIClient({ AI_PROVIDER: "openai_compatible", AI_API_KEY: "", AI_BASE_URL: `${baseUrl}/v1` });
+
+        const first = await reviewWithAI("src/a.ts", FILE_CONTENT, undefined, undefined, undefined, "plain-model");
+        const second = await reviewWithAI("src/a.ts", FILE_CONTENT, undefined, undefined, undefined, "plain-model");
+
+        expect(first).toHaveLength(1);
+        expect(second).toHaveLength(1);
+        // Local servers need no key, so the SDK's placeholder is sent
+        expect(requests[0].headers.authorization).toBe("Bearer none");
+        // The schema is tried once; later requests for the same model go straight to plain JSON
+        expect(requests.map(r => r.body.response_format.type)).toEqual(["json_schema", "json_object", "json_object"]);
+    });
+
+    it("does not fall back on errors unrelated to structured output", async () => {
+        const { reviewWithAI } = loadAIClient({ AI_PROVIDER: "openai_compatible", AI_BASE_URL: `${baseUrl}/missing` });
+
+        await expect(reviewWithAI("src/a.ts", FILE_CONTENT, undefined, undefined, undefined, "any-model")).rejects.toThrow();
+        expect(requests).toHaveLength(1);
+    });
+});
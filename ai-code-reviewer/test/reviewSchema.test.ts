@@ -0,0 +1,89 @@
+import { getReviewJsonSchema, validateReviewResponse } from "../src/utils/reviewSchema";
+import { ReviewFile } from "../src/prompts/reviewPrompts";
+
+const FILE: ReviewFile = { fileName: "src/a.ts", content: "line 1\nline 2\nline 3\nline 4" };
+const OTHER: ReviewFile = { fileName: "/src/b.ts", content: "only line" };
+
+const comment = (overrides: Record<string, unknown> = {}) => ({
+    startLine: 2, endLine: 3, severity: "major", comment: "🟡 Problem", suggestion: null, ...overrides,
+});
+
+describe("getReviewJsonSchema", () => {
+    it("requires every property, adding filePath for batched reviews", () => {
+        const items = (schema: any) => schema.properties.reviews.items;
+        expect(items(getReviewJsonSchema(false)).required).toEqual(["startLine", "endLine", "severity", "comment", "suggestion"]);
+        expect(items(getReviewJsonSchema(true)).required).toContain("filePath");
+        expect(items(getReviewJsonSchema(true)).additionalProperties).toBe(false);
+    });
+});
+
+describe("validateReviewResponse", () => {
+    it("parses a valid review, dropping null suggestions and trimming comments", () => {
+        const raw = JSON.stringify({ reviews: [comment({ comment: "  🟡 Problem  " }), comment({ startLine: 4, endLine: 4, severity: "minor", suggestion: "fixed" })] });
+        expect(validateReviewResponse(raw, [FILE], false)).toEqual({
+            isParsed: true,
+            errors: [],
+            reviews: [
+                { startLine: 2, endLine: 3, severity: "major", comment: "🟡 Problem" },
+                { startLine: 4, endLine: 4, severity: "minor", comment: "🟡 Problem", suggestion: "fixed" },
+            ],
+        });
+    });
+
+    it("accepts JSON wrapped in a code fence", () => {
+        const raw = "```json\n" + JSON.stringify({ reviews: [] }) + "\n```";
+        expect(validateReviewResponse(raw, [FILE], false)).toEqual({ isParsed: true, reviews: [], errors: [] });
+    });
+
+    it.each([
+        [null, "The response is empty"],
+        ["not json", "The response is not valid JSON"],
+        ['{"comments": []}', 'The response must be a JSON object with a "reviews" array'],
+    ])("does not parse %j", (raw, error) => {
+        const result = validateReviewResponse(raw, [FILE], false);
+        expect(result.isParsed).toBe(false);
+        expect(result.errors[0]).toContain(error);
+    });
+
+    it("keeps the valid comments and describes the invalid ones", () => {
+        const raw = JSON.stringify({
+            reviews: [
+                comment(),
+                comment({ endLine: 5 }),
+                comment({ startLine: 3, endLine: 2 }),
+                comment({ severity: "blocker" }),
+                comment({ comment: " " }),
+                comment({ suggestion: 42 }),
+                "text",
+            ],
+        });
+        const result = validateReviewResponse(raw, [FILE], false);
+        expect(result.isParsed).toBe(true);
+        expect(result.reviews).toHaveLength(1);
+        expect(result.errors).toEqual([
+            "reviews[1].endLine must be an integer between 1 and 4 (the line count of src/a.ts)",
+            "reviews[2].startLine must not be after endLine",
+            "reviews[3].severity must be one of: critical, major, minor",
+            "reviews[4].comment must be a non-empty string",
+            "reviews[5].suggestion must be a string or null",
+            "reviews[6] must be an object",
+        ]);
+    });
+
+    it("checks the file path and the line numbers of batched comments against that file", () => {
+        const raw = JSON.stringify({
+            reviews: [
+                comment({ filePath: "src/b.ts", startLine: 1, endLine: 1 }),
+                comment({ filePath: "src/b.ts" }),
+                comment({ filePath: "src/c.ts" }),
+            ],
+        });
+        const result = validateReviewResponse(raw, [FILE, OTHER], true);
+        expect(result.reviews).toEqual([{ filePath: "src/b.ts", startLine: 1, endLine: 1, severity: "major", comment: "🟡 Problem" }]);
+        expect(result.errors).toEqual([
+            "reviews[1].startLine must be an integer between 1 and 1 (the line count of /src/b.ts)",
+            "reviews[1].endLine must be an integer between 1 and 1 (the line count of /src/b.ts)",
+            "reviews[2].filePath must be one of: src/a.ts, /src/b.ts",
+        ]);
+    });
+});
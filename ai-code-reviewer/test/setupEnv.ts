@@ -0,0 +1,9 @@
+/**
+ * Minimal configuration for modules that read envVariables when they are loaded.
+ * Tests that depend on a setting (e.g., the provider tests) set it themselves before loading the module.
+ */
+process.env.AI_PROVIDER ??= "openai";
+process.env.AI_API_KEY ??= "test-key";
+process.env.AZDO_ORG_URL ??= "https://dev.azure.com/test-org";
+process.env.AZDO_PAT ??= "test-pat";
+process.env.AZDO_WEBHOOK_SECRET ??= "test-secret";
@@ -0,0 +1,82 @@
+import { createHmac } from "crypto";
+import { isAzDoUrlInOrg, isReplayedDelivery, recordDelivery, verifyAzDoSecret, verifyBitbucketSignature, verifyGitHubSignature } from "../src/utils/webhookSecurity";
+
+const SECRET = "s3cret";
+const BODY = '{"action":"opened"}';
+
+function sign(body: string, secret: string = SECRET): string {
+    return `sha256=${createHmac("sha256", secret).update(body, "utf8").digest("hex")}`;
+}
+
+function basicAuth(username: string, password: string): string {
+    return `Basic ${Buffer.from(`${username}:${password}`).toString("base64")}`;
+}
+
+describe("verifyGitHubSignature / verifyBitbucketSignature", () => {
+    it.each([
+        ["GitHub", verifyGitHubSignature],
+        ["Bitbucket", verifyBitbucketSignature],
+    ])("%s accepts the HMAC-SHA256 of the raw body", (_, verify) => {
+        expect(verify(BODY, sign(BODY), SECRET)).toBe(true);
+    });
+
+    it.each([
+        ["GitHub", verifyGitHubSignature],
+        ["Bitbucket", verifyBitbucketSignature],
+    ])("%s rejects a tampered body, a wrong secret and a missing header or secret", (_, verify) => {
+        expect(verify(`${BODY} `, sign(BODY), SECRET)).toBe(false);
+        expect(verify(BODY, sign(BODY, "other"), SECRET)).toBe(false);
+        expect(verify(BODY, sign(BODY).replace("sha256=", "sha1="), SECRET)).toBe(false);
+        expect(verify(BODY, null, SECRET)).toBe(false);
+        expect(verify(BODY, sign(BODY, ""), "")).toBe(false);
+    });
+});
+
+describe("verifyAzDoSecret", () => {
+    it("accepts the X-Anna-Secret header", () => {
+        expect(verifyAzDoSecret(null, SECRET, SECRET)).toBe(true);
+        expect(verifyAzDoSecret(null, "wrong", SECRET)).toBe(false);
+    });
+
+    it("accepts basic auth with the secret as password, checking the username only when one is configured", () => {
+        expect(verifyAzDoSecret(basicAuth("anyone", SECRET), null, SECRET)).toBe(true);
+        expect(verifyAzDoSecret(basicAuth("anna", SECRET), null, SECRET, "anna")).toBe(true);
+        expect(verifyAzDoSecret(basicAuth("someone", SECRET), null, SECRET, "anna")).toBe(false);
+        expect(verifyAzDoSecret(basicAuth("anna", "wrong"), null, SECRET)).toBe(false);
+    });
+
+    it("rejects requests without credentials or without a configured secret", () => {
+        expect(verifyAzDoSecret(null, null, SECRET)).toBe(false);
+        expect(verifyAzDoSecret("Bearer token", null, SECRET)).toBe(false);
+        expect(verifyAzDoSecret(null, "", "")).toBe(false);
+    });
+});
+
+describe("isAzDoUrlInOrg", () => {
+    it("compares the organization of cloud URLs, ignoring case", () => {
+        expect(isAzDoUrlInOrg("https://dev.azure.com/Contoso/Project/_apis/git/repositories/1", "https://dev.azure.com/contoso")).toBe(true);
+        expect(isAzDoUrlInOrg("https://contoso.visualstudio.com/Project/_apis/git/repositories/1", "https://dev.azure.com/contoso")).toBe(true);
+        expect(isAzDoUrlInOrg("https://dev.azure.com/fabrikam/Project/_apis/git/repositories/1", "https://dev.azure.com/contoso")).toBe(false);
+    });
+
+    it("compares Azure DevOps Server URLs by origin and path prefix", () => {
+        const orgUrl = "https://tfs.example.com/tfs/Collection";
+        expect(isAzDoUrlInOrg("https://tfs.example.com/tfs/collection/Project/_apis/git/repositories/1", orgUrl)).toBe(true);
+        expect(isAzDoUrlInOrg("https://tfs.example.com/tfs/CollectionOther/Project", orgUrl)).toBe(false);
+        expect(isAzDoUrlInOrg("https://evil.example.com/tfs/Collection/Project", orgUrl)).toBe(false);
+    });
+
+    it("rejects a missing URL", () => {
+        expect(isAzDoUrlInOrg(undefined, "https://dev.azure.com/contoso")).toBe(false);
+    });
+});
+
+describe("delivery replay tracking", () => {
+    it("reports a delivery as replayed only once it is recorded", () => {
+        expect(isReplayedDelivery("delivery-1")).toBe(false);
+        expect(isReplayedDelivery("delivery-1")).toBe(false);
+        recordDelivery("delivery-1");
+        expect(isReplayedDelivery("delivery-1")).toBe(true);
+        expect(isReplayedDelivery("delivery-2")).toBe(false);
+    });
+});